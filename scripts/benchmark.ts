@@ -0,0 +1,163 @@
+// Headless agent benchmark. Run with `npm run bench -- --games 1000 --agents bfs,astar`,
+// or `npm run bench -- --help` for every option.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { Agent } from '../src/game/agents/agent';
+import { BOTS, type BotId } from '../src/game/agents/bots';
+import { createNeuralAgent } from '../src/game/agents/neural';
+import { GAME_PRESETS, WALL_LABELS, type GamePresetId, type WallBehavior } from '../src/game/config';
+import { DIFFICULTIES, type DifficultyId } from '../src/game/difficulty';
+import { FOOD_TABLES, type FoodTableId } from '../src/game/food';
+import { LEVELS, findLevel, levelConfig } from '../src/game/levels';
+import { POWER_UPS, type PowerUpId } from '../src/game/powerups';
+import { benchmarkAgent, formatBenchmarkMarkdown, type BenchmarkOptions, type BenchmarkReport } from '../src/game/benchmark';
+import { createReflexBrain } from '../src/game/neural/brains';
+import { networkFromBrainFile, parseBrainFile } from '../src/game/neural/brainFile';
+
+const USAGE = `Usage: npm run bench -- [options]
+
+Plays seeded games with each agent and prints a report.
+
+  --games <n>          games per agent (default 1000)
+  --seed <n>           first seed; game i uses seed + i (default 1)
+  --agents <list>      comma-separated: ${['neural', ...Object.keys(BOTS)].join(', ')} (default all)
+  --brain <file>       brain JSON for the neural agent (default: built-in reflex brain)
+  --preset <id>        rule preset: ${Object.keys(GAME_PRESETS).join(', ')} (default classic)
+  --walls <mode>       solid or wrap (default: the preset's)
+  --level <id>         play a campaign level instead of a preset, e.g. spiral
+  --food <table>       food table: ${Object.keys(FOOD_TABLES).join(', ')} (default: the preset's)
+  --difficulty <id>    ${Object.keys(DIFFICULTIES).join(', ')}; only changes the score multiplier here
+  --power-ups <list>   comma-separated power-ups that may spawn, or none (default: the preset's)
+  --max-ticks <n>      cap on game length
+  --starvation <n>     ticks without food before a game counts as starved
+  --json <file>        also write the JSON report to a file
+  --markdown <file>    also write the Markdown table to a file
+  --format <md|json>   what to print on stdout (default md)
+  --help               show this message
+`;
+
+// Unknown options get the usage rather than a stack trace.
+const parse = () => {
+  try {
+    return parseArgs({
+      options: {
+        games: { type: 'string', default: '1000' },
+        seed: { type: 'string', default: '1' },
+        agents: { type: 'string', default: ['neural', ...Object.keys(BOTS)].join(',') },
+        brain: { type: 'string' },
+        preset: { type: 'string', default: 'classic' },
+        walls: { type: 'string' },
+        level: { type: 'string' },
+        food: { type: 'string' },
+        'power-ups': { type: 'string' },
+        difficulty: { type: 'string' },
+        'max-ticks': { type: 'string' },
+        starvation: { type: 'string' },
+        json: { type: 'string' },
+        markdown: { type: 'string' },
+        format: { type: 'string', default: 'md' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e) {
+    console.error(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+    process.exit(1);
+  }
+};
+
+const { values } = parse();
+if (values.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+
+const toNumber = (name: string, value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    console.error(`--${name} must be a non-negative integer, got "${value}"`);
+    process.exit(1);
+  }
+  return number;
+};
+
+const agentFactories: Record<string, () => Agent> = {
+  neural: () => {
+    const network = values.brain ? networkFromBrainFile(parseBrainFile(readFileSync(values.brain, 'utf8'))) : createReflexBrain();
+    return createNeuralAgent(network);
+  },
+  ...Object.fromEntries(Object.entries(BOTS).map(([id, bot]) => [id, bot.create])),
+};
+
+const agentNames = values.agents.split(',').map(name => name.trim()).filter(Boolean);
+const unknown = agentNames.filter(name => !agentFactories[name]);
+if (unknown.length > 0) {
+  console.error(`Unknown agent(s): ${unknown.join(', ')}. Choose from ${Object.keys(agentFactories).join(', ')}.`);
+  process.exit(1);
+}
+
+const preset = GAME_PRESETS[values.preset as GamePresetId];
+if (!preset) {
+  console.error(`Unknown preset "${values.preset}". Choose from ${Object.keys(GAME_PRESETS).join(', ')}.`);
+  process.exit(1);
+}
+
+if (values.walls && !(values.walls in WALL_LABELS)) {
+  console.error(`Unknown wall mode "${values.walls}". Choose from ${Object.keys(WALL_LABELS).join(', ')}.`);
+  process.exit(1);
+}
+
+if (values.food && !(values.food in FOOD_TABLES)) {
+  console.error(`Unknown food table "${values.food}". Choose from ${Object.keys(FOOD_TABLES).join(', ')}.`);
+  process.exit(1);
+}
+
+if (values.difficulty && !(values.difficulty in DIFFICULTIES)) {
+  console.error(`Unknown difficulty "${values.difficulty}". Choose from ${Object.keys(DIFFICULTIES).join(', ')}.`);
+  process.exit(1);
+}
+
+const powerUps =
+  values['power-ups'] === undefined
+    ? undefined
+    : (values['power-ups'].split(',').map(id => id.trim()).filter(id => id && id !== 'none') as PowerUpId[]);
+const unknownPowerUps = powerUps?.filter(id => !POWER_UPS[id]) ?? [];
+if (unknownPowerUps.length > 0) {
+  console.error(`Unknown power-up(s): ${unknownPowerUps.join(', ')}. Choose from ${Object.keys(POWER_UPS).join(', ')} or none.`);
+  process.exit(1);
+}
+
+const level = values.level === undefined ? null : findLevel(values.level);
+if (values.level !== undefined && !level) {
+  console.error(`Unknown level "${values.level}". Choose from ${LEVELS.map(({ id }) => id).join(', ')}.`);
+  process.exit(1);
+}
+const baseConfig = level ? levelConfig(level) : preset.config;
+
+const options: BenchmarkOptions = {
+  config: {
+    ...baseConfig,
+    walls: (values.walls as WallBehavior) ?? baseConfig.walls,
+    foodTable: values.food ? FOOD_TABLES[values.food as FoodTableId].table : baseConfig.foodTable,
+    powerUps: powerUps ?? baseConfig.powerUps,
+    difficulty: (values.difficulty as DifficultyId) ?? baseConfig.difficulty,
+  },
+  games: toNumber('games', values.games),
+  firstSeed: toNumber('seed', values.seed),
+  maxTicks: toNumber('max-ticks', values['max-ticks']),
+  starvationTicks: toNumber('starvation', values.starvation),
+};
+
+const report: BenchmarkReport = { options, agents: [] };
+for (const name of agentNames) {
+  const label = name === 'neural' ? 'Neural' : BOTS[name as BotId].label;
+  console.error(`Running ${options.games} games with ${label}…`);
+  report.agents.push(benchmarkAgent(label, agentFactories[name], options));
+}
+
+const json = JSON.stringify(report, null, 2) + '\n';
+const markdown = formatBenchmarkMarkdown(report);
+if (values.json) writeFileSync(values.json, json);
+if (values.markdown) writeFileSync(values.markdown, markdown);
+process.stdout.write(values.format === 'json' ? json : markdown);
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useSession } from '@/hooks/use-session';
+import { toast } from '@/hooks/use-toast';
+import { sendSignInLink, signInAsGuest, signOut } from '@/lib/auth';
+
+// Signing in is what lets scores, cloud levels and settings be saved. Guests
+// get an account at once; an email adds sign-in from other devices.
+const AccountDialog = () => {
+  const session = useSession();
+  const [email, setEmail] = useState('');
+  const guest = session?.user.is_anonymous ?? false;
+
+  const onError = (error: Error) => toast({ title: 'Account', description: error.message, variant: 'destructive' });
+  const signInGuest = useMutation({ mutationFn: signInAsGuest, onError });
+  const sendLink = useMutation({
+    mutationFn: () => sendSignInLink(email.trim(), guest),
+    onSuccess: () => toast({ title: 'Check your email', description: `We sent a link to ${email.trim()}.` }),
+    onError,
+  });
+  const leave = useMutation({ mutationFn: signOut, onError });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-neon-blue">
+          <User />
+          {!session ? 'SIGN IN' : guest ? 'GUEST' : session.user.email?.toUpperCase() ?? 'ACCOUNT'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple">
+        <DialogHeader>
+          <DialogTitle className="text-neon-purple font-mono">ACCOUNT</DialogTitle>
+          <DialogDescription>
+            {!session
+              ? 'Sign in to submit scores, save levels and sync your settings.'
+              : guest
+                ? 'You are playing as a guest. Add an email to sign in on other devices and keep what you saved.'
+                : `Signed in as ${session.user.email}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!session && (
+          <Button
+            className="bg-gradient-primary text-white font-mono"
+            disabled={signInGuest.isPending}
+            onClick={() => signInGuest.mutate()}
+          >
+            PLAY AS GUEST
+          </Button>
+        )}
+
+        {(!session || guest) && (
+          <form
+            className="space-y-2"
+            onSubmit={event => {
+              event.preventDefault();
+              sendLink.mutate();
+            }}
+          >
+            <Label htmlFor="account-email" className="text-neon-blue font-mono">
+              EMAIL
+            </Label>
+            <div className="flex gap-2">
+              <Input id="account-email" type="email" required value={email} onChange={event => setEmail(event.target.value)} />
+              <Button type="submit" variant="outline" className="border-neon-blue text-neon-blue font-mono" disabled={sendLink.isPending}>
+                SEND LINK
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {session && (
+          <div className="space-y-1">
+            <Button variant="ghost" className="text-neon-pink font-mono" disabled={leave.isPending} onClick={() => leave.mutate()}>
+              SIGN OUT
+            </Button>
+            {guest && <div className="text-sm text-cyber-light">A guest account without an email can't be signed back into.</div>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountDialog;
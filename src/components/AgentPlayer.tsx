@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import GameBoard from '@/components/GameBoard';
+import { DEFAULT_GAME_CONFIG, type GameConfig } from '@/game/config';
+import { createInitialState, currentTickMs, step, type GameState } from '@/game/engine';
+import type { Agent } from '@/game/agents/agent';
+import { createSeed } from '@/game/rng';
+
+type AgentPlayerProps = {
+  agent: Agent;
+  config?: GameConfig;
+  /** Defaults to the game's own tick rate, speed boosts included. */
+  tickMs?: number;
+  /** Called after every step, e.g. to read a neural agent's activations. */
+  onStep?: (state: GameState) => void;
+};
+
+const RESTART_DELAY_MS = 1000;
+
+// Lets an agent play endless games on the real board, starting a fresh seed
+// shortly after each death.
+const AgentPlayer = ({ agent, config = DEFAULT_GAME_CONFIG, tickMs, onStep }: AgentPlayerProps) => {
+  const [game, setGame] = useState<GameState>(() => createInitialState(createSeed(), config));
+
+  useEffect(() => {
+    setGame(createInitialState(createSeed(), config));
+  }, [agent, config]);
+
+  useEffect(() => {
+    if (game.status !== 'playing') {
+      const timeout = setTimeout(() => setGame(createInitialState(createSeed(), game.config)), RESTART_DELAY_MS);
+      return () => clearTimeout(timeout);
+    }
+
+    const timeout = setTimeout(() => {
+      const next = step(game, { direction: agent.decide(game) });
+      onStep?.(next);
+      setGame(next);
+    }, tickMs ?? currentTickMs(game));
+    return () => clearTimeout(timeout);
+  }, [game, agent, tickMs, onStep]);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-center font-mono text-neon-blue">
+        SCORE: <span className="text-neon-pink">{game.score.toString().padStart(6, '0')}</span>
+      </div>
+      <GameBoard
+        config={game.config}
+        snake={game.snake}
+        food={game.food}
+        foodType={game.foodType}
+        foodTicksLeft={game.foodExpiresAt === null ? null : game.foodExpiresAt - game.tick}
+        powerUp={game.powerUp}
+        effects={game.effects}
+      />
+    </div>
+  );
+};
+
+export default AgentPlayer;
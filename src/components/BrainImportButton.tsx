@@ -0,0 +1,46 @@
+import React, { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { parseBrainFile, type BrainFile } from '@/game/neural/brainFile';
+
+type BrainImportButtonProps = Omit<ButtonProps, 'onClick'> & {
+  onLoad: (file: BrainFile) => void;
+};
+
+const BrainImportButton = ({ onLoad, children, ...props }: BrainImportButtonProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const brain = parseBrainFile(await file.text());
+      onLoad(brain);
+      toast({
+        title: 'Brain loaded',
+        description: `${brain.topology.join('-')} network from generation ${brain.training.generation}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: `Could not load ${file.name}`,
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleChange} />
+      <Button {...props} onClick={() => inputRef.current?.click()}>
+        <Upload />
+        {children ?? 'LOAD BRAIN'}
+      </Button>
+    </>
+  );
+};
+
+export default BrainImportButton;
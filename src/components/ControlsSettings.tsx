@@ -0,0 +1,68 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import GamepadBindings from '@/components/GamepadBindings';
+import KeyboardBindings from '@/components/KeyboardBindings';
+import { useSettings } from '@/hooks/use-settings';
+import type { GamepadButtons } from '@/lib/gamepad';
+import type { KeyBindings } from '@/lib/keyBindings';
+import { TOUCH_MODE_LABELS, type TouchMode, type TouchSettings } from '@/lib/touchControls';
+
+const ControlsSettings = () => {
+  const { settings, updateSettings } = useSettings();
+  const { controls } = settings;
+  const touch = controls.touch;
+
+  const setKeys = (keys: KeyBindings) => updateSettings({ controls: { ...controls, keys } });
+  const setGamepad = (gamepad: GamepadButtons) => updateSettings({ controls: { ...controls, gamepad } });
+  const setTouch = (next: TouchSettings) => updateSettings({ controls: { ...controls, touch: next } });
+
+  return (
+    <>
+      <div className="space-y-2">
+        <div className="text-neon-purple font-mono">KEYBOARD</div>
+        <KeyboardBindings bindings={controls.keys} onChange={setKeys} />
+      </div>
+
+      <div className="space-y-3 pt-2">
+        <Label className="text-neon-purple font-mono">TOUCH CONTROLS</Label>
+        <Select value={touch.mode} onValueChange={mode => setTouch({ ...touch, mode: mode as TouchMode })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TOUCH_MODE_LABELS).map(([mode, label]) => (
+              <SelectItem key={mode} value={mode}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Label htmlFor="touch-dpad" className="flex items-center gap-3 cursor-pointer">
+          <Checkbox id="touch-dpad" checked={touch.dpad} onCheckedChange={checked => setTouch({ ...touch, dpad: checked === true })} />
+          <span className="text-neon-blue font-mono">ON-SCREEN D-PAD</span>
+        </Label>
+        <div className="space-y-2">
+          <Label className="text-neon-blue font-mono">SWIPE DISTANCE (PX): {touch.swipeDistance}</Label>
+          <Slider
+            min={10}
+            max={100}
+            step={5}
+            value={[touch.swipeDistance]}
+            onValueChange={([swipeDistance]) => setTouch({ ...touch, swipeDistance })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2 pt-2">
+        <div className="text-neon-purple font-mono">CONTROLLER</div>
+        <div className="text-sm text-cyber-light">The left stick always steers. Click an action, then press a button to remap it.</div>
+        <GamepadBindings buttons={controls.gamepad} onChange={setGamepad} />
+      </div>
+    </>
+  );
+};
+
+export default ControlsSettings;
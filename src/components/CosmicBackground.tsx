@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+
+// Star positions are drawn once per mount; re-rolling them on every render
+// made the sky jump on each game tick.
+const createStars = (count: number): React.CSSProperties[] =>
+  Array.from({ length: count }).map(() => ({
+    top: `${Math.random() * 100}%`,
+    left: `${Math.random() * 100}%`,
+    width: `${Math.random() * 3 + 1}px`,
+    height: `${Math.random() * 3 + 1}px`,
+    background: `radial-gradient(circle, rgba(255,255,255,${Math.random() * 0.5 + 0.5}) 0%, transparent 70%)`,
+    boxShadow: `0 0 ${Math.random() * 10 + 5}px rgba(255,255,255,${Math.random() * 0.8 + 0.2})`,
+    animationDelay: `${Math.random() * 3}s`,
+    animationDuration: `${Math.random() * 2 + 2}s`,
+  }));
+
+const CosmicBackground = () => {
+  const stars = useMemo(() => createStars(100), []);
+
+  return (
+    <div className="absolute inset-0 bg-gradient-to-b from-purple-950 via-indigo-950 to-black">
+      {/* Animated nebula clouds */}
+      <div className="absolute top-0 left-0 w-full h-full opacity-30">
+        <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500/30 rounded-full blur-[100px] animate-pulse" />
+        <div className="absolute top-1/2 right-1/4 w-80 h-80 bg-pink-500/20 rounded-full blur-[120px] animate-pulse" style={{ animationDelay: '1s' }} />
+        <div className="absolute bottom-1/4 left-1/3 w-72 h-72 bg-blue-500/20 rounded-full blur-[100px] animate-pulse" style={{ animationDelay: '2s' }} />
+      </div>
+      {/* Stars */}
+      {stars.map((style, i) => (
+        <div
+          key={i}
+          className="absolute rounded-full animate-pulse"
+          style={style}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CosmicBackground;
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { GameState } from '@/game/engine';
+import { FOOD_TYPES } from '@/game/food';
+import { POWER_UPS, POWER_UP_IDS } from '@/game/powerups';
+
+type EffectRingsProps = {
+  game: GameState;
+};
+
+const RING_PX = 32;
+const STROKE_PX = 3;
+const RADIUS = (RING_PX - STROKE_PX) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// One ring per active effect, draining as its ticks run out. The chili's
+// speed boost is shown alongside the power-ups.
+const EffectRings = ({ game }: EffectRingsProps) => {
+  const active = [
+    ...POWER_UP_IDS.filter(id => game.effects[id]).map(id => ({
+      id,
+      label: POWER_UPS[id].label,
+      emoji: POWER_UPS[id].emoji,
+      left: game.effects[id] ?? 0,
+      total: POWER_UPS[id].duration,
+    })),
+    ...(game.boostTicks > 0
+      ? [{ id: 'boost', label: 'Speed boost', emoji: FOOD_TYPES.speed.emoji, left: game.boostTicks, total: FOOD_TYPES.speed.boostTicks }]
+      : []),
+  ];
+  if (active.length === 0) return null;
+
+  return (
+    <div className="inline-flex items-center gap-2 align-middle">
+      {active.map(({ id, label, emoji, left, total }) => (
+        <div key={id} className="relative" style={{ width: RING_PX, height: RING_PX }} title={`${label}: ${left} ticks left`}>
+          <svg width={RING_PX} height={RING_PX} className="-rotate-90">
+            <circle cx={RING_PX / 2} cy={RING_PX / 2} r={RADIUS} fill="none" strokeWidth={STROKE_PX} className="stroke-cyber-light/20" />
+            <circle
+              cx={RING_PX / 2}
+              cy={RING_PX / 2}
+              r={RADIUS}
+              fill="none"
+              strokeWidth={STROKE_PX}
+              strokeLinecap="round"
+              strokeDasharray={CIRCUMFERENCE}
+              strokeDashoffset={CIRCUMFERENCE * (1 - Math.min(left / total, 1))}
+              className="stroke-neon-pink transition-all duration-150 ease-linear"
+            />
+          </svg>
+          <span className="absolute inset-0 flex items-center justify-center text-sm leading-none">{emoji}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EffectRings;
@@ -0,0 +1,32 @@
+import React from 'react';
+import CanvasBoard from '@/components/board/CanvasBoard';
+import DomBoard from '@/components/board/DomBoard';
+import type { BoardProps } from '@/components/board/shared';
+import { useBoardCellSize } from '@/hooks/use-board-cell-size';
+import { useFrameAlpha, type FrameAlpha } from '@/hooks/use-frame-alpha';
+import { useSettings } from '@/hooks/use-settings';
+
+type GameBoardProps = Omit<BoardProps, 'alpha'> & {
+  /** Classes for the box the board sizes itself to; it fills the box's width. */
+  className?: string;
+  /** Progress towards the next step; without it the snake is drawn where it is. */
+  frames?: FrameAlpha;
+};
+
+// Draws the board with the renderer chosen in settings. With reduced motion
+// the snake moves a whole cell per tick instead of gliding.
+const GameBoard = ({ className = 'w-full', frames, ...board }: GameBoardProps) => {
+  const { settings } = useSettings();
+  const alpha = useFrameAlpha(frames);
+  const [ref, cellPx] = useBoardCellSize<HTMLDivElement>(board.config.width, board.config.height);
+  const Board = settings.renderer === 'dom' ? DomBoard : CanvasBoard;
+  const still = settings.accessibility.reducedMotion;
+
+  return (
+    <div ref={ref} className={className}>
+      {cellPx > 0 && <Board cellPx={cellPx} alpha={still ? 1 : alpha} still={still} {...board} />}
+    </div>
+  );
+};
+
+export default GameBoard;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_GAMEPAD_BUTTONS,
+  GAMEPAD_ACTIONS,
+  firstPressedButton,
+  gamepadButtonName,
+  type GamepadAction,
+  type GamepadButtons,
+} from '@/lib/gamepad';
+
+type GamepadBindingsProps = {
+  buttons: GamepadButtons;
+  onChange: (buttons: GamepadButtons) => void;
+};
+
+// Click an action, then press the controller button for it. Buttons already
+// held when listening starts are ignored until released, so the press that
+// opened a menu never maps itself.
+const GamepadBindings = ({ buttons, onChange }: GamepadBindingsProps) => {
+  const [listening, setListening] = useState<GamepadAction | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    let released = firstPressedButton() === null;
+    let frame = 0;
+    const poll = () => {
+      const pressed = firstPressedButton();
+      if (pressed === null) {
+        released = true;
+      } else if (released) {
+        onChange({ ...buttons, [listening]: pressed });
+        setListening(null);
+        return;
+      }
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [listening, buttons, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {GAMEPAD_ACTIONS.map(({ action, label }) => (
+          <Button
+            key={action}
+            variant="outline"
+            size="sm"
+            className={`justify-between font-mono ${listening === action ? 'border-neon-pink text-neon-pink animate-pulse' : 'text-neon-blue'}`}
+            onClick={() => setListening(listening === action ? null : action)}
+          >
+            <span>{label.toUpperCase()}</span>
+            <span className="text-cyber-light">{listening === action ? 'PRESS…' : gamepadButtonName(buttons[action])}</span>
+          </Button>
+        ))}
+      </div>
+      <Button variant="ghost" size="sm" className="text-neon-blue" onClick={() => onChange(DEFAULT_GAMEPAD_BUTTONS)}>
+        RESET CONTROLLER BUTTONS
+      </Button>
+    </div>
+  );
+};
+
+export default GamepadBindings;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_KEY_BINDINGS,
+  KEY_ACTIONS,
+  findKeyConflicts,
+  keyLabel,
+  normalizeKey,
+  type KeyAction,
+  type KeyBindings,
+} from '@/lib/keyBindings';
+
+type KeyboardBindingsProps = {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+};
+
+// Each action lists its keys; ADD waits for the next key press. Keys bound
+// to several actions are flagged: only the first of those actions will fire.
+const KeyboardBindings = ({ bindings, onChange }: KeyboardBindingsProps) => {
+  const [listening, setListening] = useState<KeyAction | null>(null);
+  const conflicts = findKeyConflicts(bindings);
+  const labelOf = (action: KeyAction) => KEY_ACTIONS.find(other => other.action === action)?.label ?? action;
+
+  useEffect(() => {
+    if (!listening) return;
+
+    // Captured on the window ahead of the dialog, so Escape binds instead of closing it.
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const key = normalizeKey(e.key);
+      if (!bindings[listening].includes(key)) onChange({ ...bindings, [listening]: [...bindings[listening], key] });
+      setListening(null);
+    };
+
+    window.addEventListener('keydown', capture, { capture: true });
+    return () => window.removeEventListener('keydown', capture, { capture: true });
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="space-y-2">
+      {KEY_ACTIONS.map(({ action, label }) => (
+        <div key={action} className="flex flex-wrap items-center gap-2">
+          <span className="w-36 text-neon-blue font-mono text-sm">{label.toUpperCase()}</span>
+          {bindings[action].map(key => (
+            <span
+              key={key}
+              className={`inline-flex items-center gap-1 rounded border px-2 py-0.5 font-mono text-sm ${
+                conflicts.has(key) ? 'border-destructive text-destructive' : 'border-neon-purple text-neon-pink'
+              }`}
+            >
+              {keyLabel(key)}
+              <button
+                type="button"
+                aria-label={`Unbind ${keyLabel(key)} from ${label}`}
+                className="text-cyber-light hover:text-neon-pink"
+                onClick={() => onChange({ ...bindings, [action]: bindings[action].filter(other => other !== key) })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-7 font-mono ${listening === action ? 'text-neon-pink animate-pulse' : 'text-neon-blue'}`}
+            onClick={() => setListening(listening === action ? null : action)}
+          >
+            {listening === action ? (
+              'PRESS A KEY…'
+            ) : (
+              <>
+                <Plus />
+                ADD
+              </>
+            )}
+          </Button>
+        </div>
+      ))}
+      {[...conflicts].map(([key, actions]) => (
+        <div key={key} className="text-sm text-destructive">
+          {keyLabel(key)} is bound to {actions.map(labelOf).join(' and ')}; it will only {labelOf(actions[0]).toLowerCase()}.
+        </div>
+      ))}
+      <Button variant="ghost" size="sm" className="text-neon-blue" onClick={() => onChange(DEFAULT_KEY_BINDINGS)}>
+        RESET KEYS
+      </Button>
+    </div>
+  );
+};
+
+export default KeyboardBindings;
@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { Lock, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { LEVELS, levelConfig, type Level } from '@/game/levels';
+import { isLevelCleared, isLevelUnlocked, type CampaignProgress } from '@/lib/campaign';
+
+type LevelSelectProps = {
+  progress: CampaignProgress;
+  onPlay: (level: Level) => void;
+  onBack: () => void;
+};
+
+// Small static picture of a level's walls, drawn with the same grid layout as the board.
+const LevelPreview = ({ level }: { level: Level }) => {
+  const config = useMemo(() => levelConfig(level), [level]);
+  const blocked = new Set(config.obstacles.map(({ x, y }) => y * config.width + x));
+  return (
+    <div
+      className={`grid mx-auto w-40 h-40 border ${config.walls === 'wrap' ? 'border-dashed border-neon-blue' : 'border-neon-purple'}`}
+      style={{ gridTemplateColumns: `repeat(${config.width}, 1fr)`, gridTemplateRows: `repeat(${config.height}, 1fr)` }}
+    >
+      {Array.from({ length: config.width * config.height }).map((_, index) => (
+        <div key={index} className={blocked.has(index) ? 'bg-neon-purple' : 'bg-cyber-dark/50'} />
+      ))}
+    </div>
+  );
+};
+
+const LevelSelect = ({ progress, onPlay, onBack }: LevelSelectProps) => {
+  // Open on the furthest level the player can reach.
+  const startIndex = Math.max(0, LEVELS.map((_, index) => isLevelUnlocked(progress, index)).lastIndexOf(true));
+
+  return (
+    <div className="text-center py-8 animate-slide-in">
+      <div className="text-4xl text-neon-purple mb-6 animate-glow-pulse">CAMPAIGN</div>
+      <Carousel opts={{ startIndex }} className="mx-12">
+        <CarouselContent>
+          {LEVELS.map((level, index) => {
+            const unlocked = isLevelUnlocked(progress, index);
+            const best = progress.bestScores[level.id];
+            return (
+              <CarouselItem key={level.id} className="sm:basis-1/2">
+                <div className="border border-neon-purple/50 rounded-lg p-4 space-y-3 bg-cyber-dark/40">
+                  <div className="font-mono text-neon-blue">
+                    LEVEL {index + 1}: <span className="text-neon-pink">{level.name.toUpperCase()}</span>
+                  </div>
+                  <div className={unlocked ? '' : 'opacity-30'}>
+                    <LevelPreview level={level} />
+                  </div>
+                  <div className="font-mono text-sm text-cyber-light">
+                    TARGET <span className="text-neon-blue">{level.targetScore}</span> • BEST{' '}
+                    <span className="text-neon-blue">{best ?? '—'}</span>
+                    {isLevelCleared(progress, index) && <Trophy className="inline ml-2 h-4 w-4 text-neon-pink" />}
+                  </div>
+                  <Button
+                    disabled={!unlocked}
+                    onClick={() => onPlay(level)}
+                    className="bg-gradient-primary text-white font-bold"
+                  >
+                    {unlocked ? 'PLAY' : <><Lock /> LOCKED</>}
+                  </Button>
+                </div>
+              </CarouselItem>
+            );
+          })}
+        </CarouselContent>
+        <CarouselPrevious />
+        <CarouselNext />
+      </Carousel>
+      <Button variant="ghost" className="mt-6 text-neon-blue" onClick={onBack}>
+        BACK TO MENU
+      </Button>
+    </div>
+  );
+};
+
+export default LevelSelect;
@@ -0,0 +1,83 @@
+import React from 'react';
+import type { Network } from '@/game/neural/network';
+import { SENSOR_LABELS } from '@/game/neural/sensors';
+import { OUTPUT_LABELS } from '@/game/neural/brains';
+
+type NetworkViewProps = {
+  network: Network;
+  /** Per-layer activations, inputs first, as produced by `forward`. */
+  activations: number[][];
+};
+
+const WIDTH = 300;
+const HEIGHT = 460;
+const LABEL_WIDTH = 80;
+const NODE_RADIUS = 7;
+
+const NetworkView = ({ network, activations }: NetworkViewProps) => {
+  const sizes = [network.layers[0]?.weights[0]?.length ?? 0, ...network.layers.map(layer => layer.biases.length)];
+  const columnX = (layer: number) =>
+    LABEL_WIDTH + ((WIDTH - LABEL_WIDTH * 2) * layer) / Math.max(sizes.length - 1, 1);
+  const nodeY = (layer: number, index: number) => ((index + 1) * HEIGHT) / (sizes[layer] + 1);
+  const activation = (layer: number, index: number) => activations[layer]?.[index] ?? 0;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto font-mono" role="img" aria-label="Network activations">
+      {/* Connections, strongest weights most visible */}
+      {network.layers.map((layer, l) =>
+        layer.weights.map((row, j) =>
+          row.map((weight, i) => {
+            const strength = Math.min(Math.abs(weight) / 3, 1) * (0.15 + 0.85 * Math.min(Math.abs(activation(l, i)), 1));
+            if (strength < 0.05) return null;
+            return (
+              <line
+                key={`${l}-${j}-${i}`}
+                x1={columnX(l)}
+                y1={nodeY(l, i)}
+                x2={columnX(l + 1)}
+                y2={nodeY(l + 1, j)}
+                stroke={weight > 0 ? 'hsl(var(--neon-blue))' : 'hsl(var(--neon-pink))'}
+                strokeOpacity={strength}
+                strokeWidth={1 + strength}
+              />
+            );
+          }),
+        ),
+      )}
+
+      {/* Neurons */}
+      {sizes.map((size, l) =>
+        Array.from({ length: size }, (_, i) => {
+          const value = activation(l, i);
+          const label = l === 0 ? SENSOR_LABELS[i] : l === sizes.length - 1 ? OUTPUT_LABELS[i] : null;
+          return (
+            <g key={`${l}-${i}`}>
+              <circle
+                cx={columnX(l)}
+                cy={nodeY(l, i)}
+                r={NODE_RADIUS}
+                fill="hsl(var(--neon-purple))"
+                fillOpacity={0.1 + 0.9 * Math.min(Math.abs(value), 1)}
+                stroke="hsl(var(--neon-purple))"
+              />
+              {label && (
+                <text
+                  x={l === 0 ? columnX(l) - NODE_RADIUS - 4 : columnX(l) + NODE_RADIUS + 4}
+                  y={nodeY(l, i)}
+                  dominantBaseline="middle"
+                  textAnchor={l === 0 ? 'end' : 'start'}
+                  fontSize={10}
+                  fill="hsl(var(--foreground))"
+                >
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        }),
+      )}
+    </svg>
+  );
+};
+
+export default NetworkView;
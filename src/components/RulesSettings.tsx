@@ -0,0 +1,124 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { BOARD_SIZE_RANGE, GAME_PRESETS, START_LENGTH_RANGE, findPreset, type GameConfig } from '@/game/config';
+import { FOOD_TABLES, FOOD_TYPES, FOOD_TYPE_IDS, findFoodTable, type FoodTableId } from '@/game/food';
+import { POWER_UPS, POWER_UP_IDS, type PowerUpId } from '@/game/powerups';
+
+type RulesSettingsProps = {
+  config: GameConfig;
+  onChange: (config: GameConfig) => void;
+};
+
+type NumericRule = { [K in keyof GameConfig]: GameConfig[K] extends number ? K : never }[keyof GameConfig];
+
+const SLIDERS: { key: NumericRule; label: string; min: number; max: number; step: number }[] = [
+  { key: 'width', label: 'WIDTH', ...BOARD_SIZE_RANGE, step: 1 },
+  { key: 'height', label: 'HEIGHT', ...BOARD_SIZE_RANGE, step: 1 },
+  { key: 'startLength', label: 'START LENGTH', ...START_LENGTH_RANGE, step: 1 },
+  { key: 'tickMs', label: 'TICK (MS)', min: 50, max: 300, step: 5 },
+  { key: 'pointsPerFood', label: 'POINTS PER FOOD', min: 1, max: 50, step: 1 },
+];
+
+// Presets fill in every rule but the walls at once; touching a slider, the food
+// or the power-ups afterwards (or the difficulty on the menu) turns the
+// selection into a custom rule set.
+const RulesSettings = ({ config, onChange }: RulesSettingsProps) => {
+  const preset = findPreset(config);
+  const foodTable = findFoodTable(config.foodTable);
+
+  // Keeps the registry order so equal selections encode to the same rules code.
+  const togglePowerUp = (id: PowerUpId, enabled: boolean) =>
+    onChange({ ...config, powerUps: POWER_UP_IDS.filter(other => (other === id ? enabled : config.powerUps.includes(other))) });
+
+  return (
+    <>
+      <RadioGroup
+        value={preset ?? ''}
+        onValueChange={id =>
+          onChange({ ...GAME_PRESETS[id as keyof typeof GAME_PRESETS].config, walls: config.walls })
+        }
+        className="grid gap-3"
+      >
+        {Object.entries(GAME_PRESETS).map(([id, { label, description }]) => (
+          <Label key={id} htmlFor={`preset-${id}`} className="flex items-start gap-3 cursor-pointer">
+            <RadioGroupItem id={`preset-${id}`} value={id} className="mt-0.5" />
+            <span>
+              <span className="text-neon-blue font-mono">{label.toUpperCase()}</span>
+              <span className="block text-cyber-light font-normal">{description}</span>
+            </span>
+          </Label>
+        ))}
+      </RadioGroup>
+
+      <div className="space-y-4 pt-2">
+        <div className="text-neon-purple font-mono">{preset ? 'FINE-TUNE' : 'CUSTOM RULES'}</div>
+        {SLIDERS.map(({ key, label, min, max, step }) => (
+          <div key={key} className="space-y-2">
+            <Label className="text-neon-blue font-mono">
+              {label}: {config[key]}
+            </Label>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={[config[key]]}
+              onValueChange={([value]) => onChange({ ...config, [key]: value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 pt-2">
+        <Label className="text-neon-purple font-mono">FOOD</Label>
+        <Select
+          value={foodTable ?? undefined}
+          onValueChange={id => onChange({ ...config, foodTable: FOOD_TABLES[id as FoodTableId].table })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Custom mix" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(FOOD_TABLES).map(([id, { label }]) => (
+              <SelectItem key={id} value={id}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {foodTable && <div className="text-sm text-cyber-light">{FOOD_TABLES[foodTable].description}</div>}
+        <div className="grid gap-1 text-sm">
+          {FOOD_TYPE_IDS.filter(type => config.foodTable[type]).map(type => (
+            <div key={type}>
+              {FOOD_TYPES[type].emoji} <span className="text-neon-blue font-mono">{FOOD_TYPES[type].label.toUpperCase()}</span>{' '}
+              <span className="text-cyber-light">{FOOD_TYPES[type].description}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2 pt-2">
+        <div className="text-neon-purple font-mono">POWER-UPS</div>
+        {POWER_UP_IDS.map(id => (
+          <Label key={id} htmlFor={`power-up-${id}`} className="flex items-start gap-3 cursor-pointer">
+            <Checkbox
+              id={`power-up-${id}`}
+              checked={config.powerUps.includes(id)}
+              onCheckedChange={checked => togglePowerUp(id, checked === true)}
+              className="mt-0.5"
+            />
+            <span>
+              {POWER_UPS[id].emoji} <span className="text-neon-blue font-mono">{POWER_UPS[id].label.toUpperCase()}</span>{' '}
+              <span className="text-cyber-light font-normal">{POWER_UPS[id].description}</span>
+            </span>
+          </Label>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default RulesSettings;
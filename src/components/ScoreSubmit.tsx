@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { GameConfig } from '@/game/config';
+import type { Level } from '@/game/levels';
+import { useSession } from '@/hooks/use-session';
+import { signInAsGuest } from '@/lib/auth';
+import { MAX_PLAYER_NAME_LENGTH, leaderboardPath, loadPlayerName, savePlayerName, scoreBoard, submitScore } from '@/lib/leaderboard';
+
+type ScoreSubmitProps = {
+  score: number;
+  /** Rules the game was played with. */
+  config: GameConfig;
+  level: Level | null;
+  autopilot: boolean;
+};
+
+// Posts a finished game to the online leaderboard. Meant to be remounted for
+// every game, so a score can only be submitted once.
+const ScoreSubmit = ({ score, config, level, autopilot }: ScoreSubmitProps) => {
+  const session = useSession();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(loadPlayerName);
+
+  const submit = useMutation({
+    mutationFn: async () => {
+      // Submitting is reason enough to sign in, so a player without an account becomes a guest.
+      if (!session) await signInAsGuest();
+      return submitScore({ playerName: name, score, config, level });
+    },
+    onSuccess: () => {
+      savePlayerName(name.trim());
+      queryClient.invalidateQueries({ queryKey: ['scores'] });
+    },
+  });
+
+  const leaderboardLink = (
+    <Link to={leaderboardPath(scoreBoard(config, level))} className="text-neon-blue hover:text-neon-pink underline font-mono">
+      VIEW LEADERBOARD
+    </Link>
+  );
+
+  if (autopilot || score === 0) {
+    return (
+      <div className="text-sm text-cyber-light mb-6 space-y-1">
+        <div>
+          {autopilot ? "Autopilot runs aren't ranked." : 'Score some points to get on the leaderboard.'}
+        </div>
+        {leaderboardLink}
+      </div>
+    );
+  }
+
+  if (submit.isSuccess) {
+    return (
+      <div className="text-neon-blue font-mono mb-6 space-y-1">
+        <div>SCORE SUBMITTED</div>
+        {leaderboardLink}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 space-y-2">
+      <form
+        className="flex flex-wrap items-center justify-center gap-2"
+        onSubmit={event => {
+          event.preventDefault();
+          submit.mutate();
+        }}
+      >
+        <Input
+          aria-label="Player name"
+          placeholder="Your name"
+          className="w-48"
+          value={name}
+          maxLength={MAX_PLAYER_NAME_LENGTH}
+          onChange={event => setName(event.target.value)}
+        />
+        <Button type="submit" variant="outline" className="border-neon-blue text-neon-blue font-mono" disabled={submit.isPending || !name.trim()}>
+          SUBMIT SCORE
+        </Button>
+      </form>
+      {submit.isError && <div className="text-sm text-neon-pink">{submit.error.message}</div>}
+      {!session && <div className="text-xs text-cyber-light">Submitting signs you in as a guest.</div>}
+      {leaderboardLink}
+    </div>
+  );
+};
+
+export default ScoreSubmit;
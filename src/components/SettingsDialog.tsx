@@ -0,0 +1,140 @@
+import React from 'react';
+import { Settings as SettingsIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import ControlsSettings from '@/components/ControlsSettings';
+import RulesSettings from '@/components/RulesSettings';
+import type { GameConfig } from '@/game/config';
+import { useSettings } from '@/hooks/use-settings';
+import { BOARD_RENDERERS, type BoardRenderer } from '@/lib/renderer';
+import { DEFAULT_SETTINGS, THEMES, type Settings, type ThemeId } from '@/lib/settings';
+
+type SettingsDialogProps = {
+  /** Rules for the next game; the game owns them so a campaign or editor level can swap in its own. */
+  config: GameConfig;
+  onConfigChange: (config: GameConfig) => void;
+  onOpenChange?: (open: boolean) => void;
+};
+
+const ACCESSIBILITY: { key: keyof Settings['accessibility']; label: string; description: string }[] = [
+  { key: 'reducedMotion', label: 'REDUCED MOTION', description: 'The snake jumps from cell to cell and nothing pulses or slides.' },
+  { key: 'highContrast', label: 'HIGH CONTRAST', description: 'Darker backgrounds with brighter grid lines and text.' },
+];
+
+// Everything the player can change, in one place reachable from the menu and
+// the pause screen. Rule changes apply from the next game; the rest at once.
+const SettingsDialog = ({ config, onConfigChange, onOpenChange }: SettingsDialogProps) => {
+  const { settings, updateSettings } = useSettings();
+
+  return (
+    <Dialog onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-neon-blue">
+          <SettingsIcon />
+          SETTINGS
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-neon-purple font-mono">SETTINGS</DialogTitle>
+          <DialogDescription>Saved on this device, and to your profile when you are signed in.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="rules">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="rules" className="font-mono">RULES</TabsTrigger>
+            <TabsTrigger value="display" className="font-mono">DISPLAY</TabsTrigger>
+            <TabsTrigger value="sound" className="font-mono">SOUND</TabsTrigger>
+            <TabsTrigger value="controls" className="font-mono">CONTROLS</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rules" className="space-y-4 pt-2">
+            <div className="text-sm text-cyber-light">Board size, speed, food and power-ups for the next game. Walls are chosen on the menu.</div>
+            <RulesSettings config={config} onChange={onConfigChange} />
+          </TabsContent>
+
+          <TabsContent value="display" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label className="text-neon-purple font-mono">THEME</Label>
+              <Select value={settings.theme} onValueChange={theme => updateSettings({ theme: theme as ThemeId })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(THEMES).map(([id, { label, description }]) => (
+                    <SelectItem key={id} value={id}>
+                      {label} <span className="text-cyber-light">· {description}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-neon-purple font-mono">RENDERER</div>
+              <RadioGroup
+                value={settings.renderer}
+                onValueChange={renderer => updateSettings({ renderer: renderer as BoardRenderer })}
+                className="grid gap-3"
+              >
+                {Object.entries(BOARD_RENDERERS).map(([id, { label, description }]) => (
+                  <Label key={id} htmlFor={`renderer-${id}`} className="flex items-start gap-3 cursor-pointer">
+                    <RadioGroupItem id={`renderer-${id}`} value={id} className="mt-0.5" />
+                    <span>
+                      <span className="text-neon-blue font-mono">{label.toUpperCase()}</span>
+                      <span className="block text-cyber-light font-normal">{description}</span>
+                    </span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-3">
+              <div className="text-neon-purple font-mono">ACCESSIBILITY</div>
+              {ACCESSIBILITY.map(({ key, label, description }) => (
+                <Label key={key} htmlFor={`accessibility-${key}`} className="flex items-start gap-3 cursor-pointer">
+                  <Switch
+                    id={`accessibility-${key}`}
+                    checked={settings.accessibility[key]}
+                    onCheckedChange={checked => updateSettings({ accessibility: { ...settings.accessibility, [key]: checked } })}
+                  />
+                  <span>
+                    <span className="text-neon-blue font-mono">{label}</span>
+                    <span className="block text-cyber-light font-normal">{description}</span>
+                  </span>
+                </Label>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="sound" className="space-y-4 pt-2">
+            <Label htmlFor="sound-on" className="flex items-center gap-3 cursor-pointer">
+              <Switch
+                id="sound-on"
+                checked={settings.volume > 0}
+                onCheckedChange={on => updateSettings({ volume: on ? DEFAULT_SETTINGS.volume : 0 })}
+              />
+              <span className="text-neon-purple font-mono">SOUND</span>
+            </Label>
+            <div className="space-y-2">
+              <Label className="text-neon-blue font-mono">VOLUME: {Math.round(settings.volume * 100)}%</Label>
+              <Slider min={0} max={1} step={0.05} value={[settings.volume]} onValueChange={([volume]) => updateSettings({ volume })} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="controls" className="space-y-4 pt-2">
+            <ControlsSettings />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,68 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { SettingsContext, type SettingsPatch } from '@/hooks/use-settings';
+import { useSession } from '@/hooks/use-session';
+import { toast } from '@/hooks/use-toast';
+import { loadProfileSettings, saveProfileSettings } from '@/lib/cloudSettings';
+import { THEMES, loadSettings, migrateSettings, saveSettings, type Settings } from '@/lib/settings';
+
+// Changes are uploaded once they have settled for this long, so dragging a
+// slider sends one request rather than dozens.
+const SYNC_DELAY_MS = 1000;
+
+// Keeps the settings in localStorage and, while signed in, in the player's
+// profile. On sign-in the profile wins over this device; a player without a
+// profile yet has this device's settings uploaded instead.
+const SettingsProvider = ({ children }: { children: React.ReactNode }) => {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const session = useSession();
+  const userId = session?.user.id ?? null;
+  // The player whose profile has been read; uploads wait for it so defaults never overwrite a profile.
+  const [syncedUser, setSyncedUser] = useState<string | null>(null);
+
+  const updateSettings = useCallback((patch: SettingsPatch) => setSettings(current => ({ ...current, ...patch })), []);
+  const value = useMemo(() => ({ settings, updateSettings }), [settings, updateSettings]);
+
+  useEffect(() => saveSettings(settings), [settings]);
+
+  // Themes and accessibility options are classes on <html> that index.css
+  // styles. Applied before paint so the canvas board reads the new colours.
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    for (const id of Object.keys(THEMES)) root.classList.toggle(`theme-${id}`, id === settings.theme);
+    root.classList.toggle('high-contrast', settings.accessibility.highContrast);
+    root.classList.toggle('reduce-motion', settings.accessibility.reducedMotion);
+  }, [settings.theme, settings.accessibility]);
+
+  useEffect(() => {
+    setSyncedUser(null);
+    if (!userId) return;
+
+    let cancelled = false;
+    loadProfileSettings(userId)
+      .then(stored => {
+        if (cancelled) return;
+        if (stored !== null) setSettings(migrateSettings(stored));
+        setSyncedUser(userId);
+      })
+      .catch(e => toast({ title: 'Settings not synced', description: e instanceof Error ? e.message : String(e), variant: 'destructive' }));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!syncedUser) return;
+    const timeout = setTimeout(
+      () =>
+        saveProfileSettings(syncedUser, settings).catch(e =>
+          toast({ title: 'Settings not synced', description: e instanceof Error ? e.message : String(e), variant: 'destructive' }),
+        ),
+      SYNC_DELAY_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [syncedUser, settings]);
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+};
+
+export default SettingsProvider;
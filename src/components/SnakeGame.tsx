@@ -1,24 +1,129 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Link } from 'react-router-dom';
+import CosmicBackground from '@/components/CosmicBackground';
+import GameBoard from '@/components/GameBoard';
+import NetworkView from '@/components/NetworkView';
+import AccountDialog from '@/components/AccountDialog';
+import BrainImportButton from '@/components/BrainImportButton';
+import EffectRings from '@/components/EffectRings';
+import LevelSelect from '@/components/LevelSelect';
+import ScoreSubmit from '@/components/ScoreSubmit';
+import SettingsDialog from '@/components/SettingsDialog';
+import TouchControls from '@/components/TouchControls';
+import { BOTS, type BotId } from '@/game/agents/bots';
+import { createNeuralAgent } from '@/game/agents/neural';
+import { GAME_PRESETS, WALL_LABELS, findPreset, type GameConfig, type WallBehavior } from '@/game/config';
+import { decodeConfig, encodeConfig } from '@/game/configCode';
+import { DIFFICULTIES, type DifficultyId } from '@/game/difficulty';
+import {
+  DIRECTIONS,
+  createInitialState,
+  currentLevel,
+  currentTickMs,
+  step,
+  type Direction,
+  type GameState,
+} from '@/game/engine';
+import { FOOD_TYPES, FOOD_TYPE_IDS, type FoodTypeId } from '@/game/food';
+import { EMPTY_INPUT_QUEUE, dequeueTurn, enqueueTurn, type InputQueue } from '@/game/input';
+import { encodeLevelCode, levelCodeQuery, type CustomLevel } from '@/game/customLevel';
+import { LEVELS, levelConfig, type Level } from '@/game/levels';
+import { createReflexBrain } from '@/game/neural/brains';
+import { networkFromBrainFile } from '@/game/neural/brainFile';
+import type { Network } from '@/game/neural/network';
+import { createReplayRecorder, type ReplayRecorder } from '@/game/replay';
+import { createSeed } from '@/game/rng';
+import { isLevelCleared, loadCampaignProgress, recordLevelScore, type CampaignProgress } from '@/lib/campaign';
+import { saveReplay } from '@/lib/replays';
+import { actionForKey, describeKeys } from '@/lib/keyBindings';
+import type { GamepadAction } from '@/lib/gamepad';
+import { touchControlsActive } from '@/lib/touchControls';
+import { useFixedStepLoop } from '@/hooks/use-fixed-step-loop';
+import { useFrameAlphaSource } from '@/hooks/use-frame-alpha';
+import { useGamepad } from '@/hooks/use-gamepad';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useSettings } from '@/hooks/use-settings';
+import { useSwipe } from '@/hooks/use-swipe';
+import { toast } from '@/hooks/use-toast';
 
-const GRID_SIZE = 20;
-const INITIAL_SNAKE = [{ x: 10, y: 10 }];
-const INITIAL_FOOD = { x: 15, y: 15 };
-const INITIAL_DIRECTION = { x: 0, y: -1 };
+type GamePhase = 'menu' | 'levels' | 'playing' | 'paused' | 'gameOver';
+type Pilot = 'neural' | BotId;
 
-type Position = { x: number; y: number };
-type GameState = 'menu' | 'playing' | 'paused' | 'gameOver';
+type Sound = { frequency: number; type: OscillatorType; seconds: number };
 
-const SnakeGame = () => {
-  const [gameState, setGameState] = useState<GameState>('menu');
-  const [snake, setSnake] = useState<Position[]>(INITIAL_SNAKE);
-  const [food, setFood] = useState<Position>(INITIAL_FOOD);
-  const [direction, setDirection] = useState<Position>(INITIAL_DIRECTION);
-  const [score, setScore] = useState(0);
+const FOOD_SOUNDS: Record<FoodTypeId, Sound> = {
+  banana: { frequency: 400, type: 'square', seconds: 0.1 },
+  golden: { frequency: 880, type: 'triangle', seconds: 0.25 },
+  shrink: { frequency: 220, type: 'sine', seconds: 0.2 },
+  speed: { frequency: 600, type: 'sawtooth', seconds: 0.15 },
+  poison: { frequency: 90, type: 'sawtooth', seconds: 0.4 },
+};
+
+const POWER_UP_SOUND: Sound = { frequency: 1200, type: 'sine', seconds: 0.3 };
+const SHIELD_SOUND: Sound = { frequency: 150, type: 'square', seconds: 0.2 };
+const LEVEL_UP_SOUND: Sound = { frequency: 660, type: 'triangle', seconds: 0.35 };
+
+type SnakeGameProps = {
+  /** Fixed RNG seed, e.g. from `?seed=`; a fresh one is drawn per game otherwise. */
+  seed?: number | null;
+  /** Editor level from `?level=`; it replaces the free-play rules and starts straight away. */
+  customLevel?: CustomLevel | null;
+};
+
+const SnakeGame = ({ seed, customLevel }: SnakeGameProps) => {
+  const [gamePhase, setGamePhase] = useState<GamePhase>(customLevel ? 'playing' : 'menu');
+  const { settings, updateSettings } = useSettings();
+  // Free-play rules live in settings, so they outlast reloads and follow a
+  // signed-in player between devices. An editor level brings its own.
+  const [customConfig, setCustomConfig] = useState<GameConfig | null>(customLevel?.config ?? null);
+  const savedRules = settings.rules;
+  const savedConfig = useMemo(() => decodeConfig(savedRules), [savedRules]);
+  const config = customConfig ?? savedConfig;
+  const setConfig = (next: GameConfig) => (customConfig ? setCustomConfig(next) : updateSettings({ rules: encodeConfig(next) }));
+  // Campaign level being played, or null for free play with `config`.
+  const [level, setLevel] = useState<Level | null>(null);
+  const [progress, setProgress] = useState<CampaignProgress>(loadCampaignProgress);
+  const [game, setGame] = useState<GameState>(() => createInitialState(createSeed(), config));
+  // The loop steps from this ref rather than from render state, so catch-up
+  // steps within one frame each build on the one before.
+  const gameRef = useRef(game);
+  // Snake before the latest step and how far rendering has moved on from it.
+  const [previousSnake, setPreviousSnake] = useState(game.snake);
+  const frames = useFrameAlphaSource();
+  const inputQueue = useRef<InputQueue>(EMPTY_INPUT_QUEUE);
+  const recorder = useRef<ReplayRecorder | null>(null);
+  const [replayId, setReplayId] = useState<string | null>(null);
+  const [autopilot, setAutopilot] = useState(false);
+  const [pilot, setPilot] = useState<Pilot>('neural');
+  const [brain, setBrain] = useState<Network>(createReflexBrain);
+  const neuralAgent = useMemo(() => createNeuralAgent(brain), [brain]);
+  const agent = useMemo(() => (pilot === 'neural' ? neuralAgent : BOTS[pilot].create()), [pilot, neuralAgent]);
+  const [activations, setActivations] = useState<number[][]>([]);
+  // Small screens get a tighter HUD so the board keeps most of the space.
+  const compact = useIsMobile();
+  const { touch, keys: keyBindings, gamepad: gamepadButtons } = settings.controls;
+  const touchActive = touchControlsActive(touch, compact);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const autoStart = useRef(!!customLevel);
+  const { snake, food, score } = game;
+  const tickMs = currentTickMs(game);
+  const speedLevel = currentLevel(game);
+  const difficulty = DIFFICULTIES[game.config.difficulty];
+  const preset = findPreset(config);
+  const inGame = gamePhase === 'playing' || gamePhase === 'paused';
+  const moveKeys = (['up', 'left', 'down', 'right'] as const).map(action => describeKeys(keyBindings, action)).join(', ');
+  const levelIndex = level ? LEVELS.indexOf(level) : -1;
+  const nextLevel = level ? LEVELS[levelIndex + 1] ?? null : null;
 
   // Create audio context for bite sound
-  const playBiteSound = useCallback(() => {
+  const { volume } = settings;
+  const playSound = useCallback((sound: Sound) => {
+    if (volume === 0) return;
     const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
     const oscillator = audioContext.createOscillator();
     const gainNode = audioContext.createGain();
@@ -26,307 +131,447 @@ const SnakeGame = () => {
     oscillator.connect(gainNode);
     gainNode.connect(audioContext.destination);
     
-    oscillator.frequency.value = 400;
-    oscillator.type = 'square';
+    oscillator.frequency.value = sound.frequency;
+    oscillator.type = sound.type;
     
-    gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.1);
+    gainNode.gain.setValueAtTime(0.3 * volume, audioContext.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + sound.seconds);
     
     oscillator.start(audioContext.currentTime);
-    oscillator.stop(audioContext.currentTime + 0.1);
-  }, []);
+    oscillator.stop(audioContext.currentTime + sound.seconds);
+  }, [volume]);
 
-  const generateFood = useCallback((snakeBody: Position[]) => {
-    let newFood: Position;
-    do {
-      newFood = {
-        x: Math.floor(Math.random() * GRID_SIZE),
-        y: Math.floor(Math.random() * GRID_SIZE),
-      };
-    } while (snakeBody.some(segment => segment.x === newFood.x && segment.y === newFood.y));
-    return newFood;
-  }, []);
+  const startGame = (nextLevel: Level | null = level) => {
+    const gameSeed = seed ?? createSeed();
+    const gameConfig = nextLevel ? levelConfig(nextLevel) : config;
+    inputQueue.current = EMPTY_INPUT_QUEUE;
+    recorder.current = createReplayRecorder(gameSeed, gameConfig);
+    setLevel(nextLevel);
+    setReplayId(null);
+    const initial = createInitialState(gameSeed, gameConfig);
+    gameRef.current = initial;
+    setPreviousSnake(initial.snake);
+    setGame(initial);
+    setGamePhase('playing');
+  };
 
-  const resetGame = useCallback(() => {
-    setSnake(INITIAL_SNAKE);
-    setFood(INITIAL_FOOD);
-    setDirection(INITIAL_DIRECTION);
-    setScore(0);
+  // Checked against the last queued turn, not the rendered heading, which may be a tick or more behind.
+  const queueTurn = useCallback((turn: Direction) => {
+    inputQueue.current = enqueueTurn(inputQueue.current, gameRef.current.direction, turn);
   }, []);
 
-  const startGame = () => {
-    resetGame();
-    setGameState('playing');
+  // Touch input goes through the same queue as the keyboard.
+  const steer = (turn: Direction) => {
+    if (gamePhase === 'playing' && !autopilot) queueTurn(turn);
   };
 
-  const gameLoop = useCallback(() => {
-    if (gameState !== 'playing') return;
+  const togglePause = () => setGamePhase(phase => (phase === 'playing' ? 'paused' : phase === 'paused' ? 'playing' : phase));
 
-    setSnake(currentSnake => {
-      const newSnake = [...currentSnake];
-      const head = { ...newSnake[0] };
-      
-      head.x += direction.x;
-      head.y += direction.y;
+  const handleGamepad = (action: GamepadAction) => {
+    switch (action) {
+      case 'pause':
+        togglePause();
+        break;
+      case 'start':
+        if (gamePhase === 'menu') startGame(null);
+        else if (gamePhase === 'gameOver') startGame();
+        break;
+      default:
+        steer(DIRECTIONS[action]);
+    }
+  };
 
-      // Check wall collision
-      if (head.x < 0 || head.x >= GRID_SIZE || head.y < 0 || head.y >= GRID_SIZE) {
-        setGameState('gameOver');
-        return currentSnake;
-      }
+  useGamepad({ enabled: !settingsOpen, buttons: gamepadButtons, onAction: handleGamepad });
 
-      // Check self collision
-      if (newSnake.some(segment => segment.x === head.x && segment.y === head.y)) {
-        setGameState('gameOver');
-        return currentSnake;
-      }
+  const swipe = useSwipe({ enabled: touchActive && inGame, minDistance: touch.swipeDistance, onSwipe: steer });
 
-      newSnake.unshift(head);
+  // Runs once after mounting so a level opened from the editor gets a replay recorder like any other game.
+  useEffect(() => {
+    if (!autoStart.current) return;
+    autoStart.current = false;
+    startGame(null);
+  });
 
-      // Check food collision
-      if (head.x === food.x && head.y === food.y) {
-        playBiteSound();
-        setScore(prev => prev + 10);
-        setFood(generateFood(newSnake));
-      } else {
-        newSnake.pop();
-      }
+  const advanceGame = () => {
+    const current = gameRef.current;
+    if (current.status !== 'playing') return;
 
-      return newSnake;
-    });
-  }, [gameState, direction, food, generateFood, playBiteSound]);
+    const [turn, queued] = dequeueTurn(inputQueue.current);
+    inputQueue.current = queued;
+    const next = step(current, { direction: autopilot ? agent.decide(current) : turn });
+    if (autopilot && pilot === 'neural') setActivations(neuralAgent.activations);
+    recorder.current?.record(current, next);
 
-  // Game loop effect
-  useEffect(() => {
-    if (gameState !== 'playing') return;
-    
-    const gameInterval = setInterval(gameLoop, 150);
-    return () => clearInterval(gameInterval);
-  }, [gameLoop, gameState]);
+    for (const event of next.events) {
+      if (event.type === 'eat') playSound(FOOD_SOUNDS[event.food]);
+      if (event.type === 'death' && event.cause === 'poison') playSound(FOOD_SOUNDS.poison);
+      if (event.type === 'powerUp') playSound(POWER_UP_SOUND);
+      if (event.type === 'shield') playSound(SHIELD_SOUND);
+      if (event.type === 'levelUp') playSound(LEVEL_UP_SOUND);
+    }
+    // Autopilot runs don't count towards campaign progress.
+    if (level && !autopilot && current.score < level.targetScore && next.score >= level.targetScore) {
+      toast({ title: 'Target reached', description: nextLevel ? `${nextLevel.name} is unlocked.` : 'Campaign complete!' });
+    }
+    if (next.status !== 'playing') {
+      setGamePhase('gameOver');
+      if (recorder.current) setReplayId(saveReplay(recorder.current.finish(next)));
+      if (level && !autopilot) setProgress(recordLevelScore(level.id, next.score));
+    }
+    gameRef.current = next;
+    setPreviousSnake(current.snake);
+    setGame(next);
+  };
 
-  // Keyboard controls
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (gameState === 'playing') {
-        switch (e.key) {
-          case 'ArrowUp':
-          case 'w':
-          case 'W':
-            if (direction.y === 0) setDirection({ x: 0, y: -1 });
-            break;
-          case 'ArrowDown':
-          case 's':
-          case 'S':
-            if (direction.y === 0) setDirection({ x: 0, y: 1 });
-            break;
-          case 'ArrowLeft':
-          case 'a':
-          case 'A':
-            if (direction.x === 0) setDirection({ x: -1, y: 0 });
-            break;
-          case 'ArrowRight':
-          case 'd':
-          case 'D':
-            if (direction.x === 0) setDirection({ x: 1, y: 0 });
-            break;
-          case ' ':
-            e.preventDefault();
-            setGameState('paused');
-            break;
-        }
-      } else if (gameState === 'paused' && e.key === ' ') {
-        e.preventDefault();
-        setGameState('playing');
-      }
-    };
+  useFixedStepLoop({
+    running: gamePhase === 'playing',
+    stepMs: () => currentTickMs(gameRef.current),
+    onStep: advanceGame,
+    onFrame: frames.set,
+  });
 
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [direction, gameState]);
+  const handleKey = (e: KeyboardEvent) => {
+    if (settingsOpen) return;
+    // Typing a name or an email is not playing: R in a text field must not restart the game.
+    if (e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(e.target.tagName))) return;
+    const action = actionForKey(keyBindings, e.key);
+    switch (action) {
+      case null:
+        return;
+      case 'pause':
+        if (!inGame) return;
+        togglePause();
+        break;
+      case 'restart':
+        if (!inGame && gamePhase !== 'gameOver') return;
+        startGame();
+        break;
+      case 'menu':
+        if (gamePhase === 'menu') return;
+        setGamePhase('menu');
+        break;
+      default:
+        // The autopilot owns steering; pause, restart and quitting stay with the player.
+        if (gamePhase !== 'playing' || autopilot) return;
+        queueTurn(DIRECTIONS[action]);
+    }
+    e.preventDefault();
+  };
+
+  // Keyboard controls, read through a ref so the listener is only added once.
+  const keyHandler = useRef(handleKey);
+  keyHandler.current = handleKey;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandler.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
 
   return (
     <div className="min-h-screen relative overflow-hidden flex items-center justify-center p-4">
-      {/* Cosmic Background */}
-      <div className="absolute inset-0 bg-gradient-to-b from-purple-950 via-indigo-950 to-black">
-        {/* Animated nebula clouds */}
-        <div className="absolute top-0 left-0 w-full h-full opacity-30">
-          <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500/30 rounded-full blur-[100px] animate-pulse" />
-          <div className="absolute top-1/2 right-1/4 w-80 h-80 bg-pink-500/20 rounded-full blur-[120px] animate-pulse" style={{ animationDelay: '1s' }} />
-          <div className="absolute bottom-1/4 left-1/3 w-72 h-72 bg-blue-500/20 rounded-full blur-[100px] animate-pulse" style={{ animationDelay: '2s' }} />
-        </div>
-        {/* Stars */}
-        {Array.from({ length: 100 }).map((_, i) => (
-          <div
-            key={i}
-            className="absolute rounded-full animate-pulse"
-            style={{
-              top: `${Math.random() * 100}%`,
-              left: `${Math.random() * 100}%`,
-              width: `${Math.random() * 3 + 1}px`,
-              height: `${Math.random() * 3 + 1}px`,
-              background: `radial-gradient(circle, rgba(255,255,255,${Math.random() * 0.5 + 0.5}) 0%, transparent 70%)`,
-              boxShadow: `0 0 ${Math.random() * 10 + 5}px rgba(255,255,255,${Math.random() * 0.8 + 0.2})`,
-              animationDelay: `${Math.random() * 3}s`,
-              animationDuration: `${Math.random() * 2 + 2}s`,
-            }}
-          />
-        ))}
-      </div>
-      <div className="w-full max-w-2xl relative z-10">
+      <CosmicBackground />
+      <div className={`w-full ${inGame || (autopilot && pilot === 'neural') ? 'max-w-5xl' : 'max-w-2xl'} relative z-10`}>
         {/* Header */}
-        <div className="text-center mb-8">
-          <h1 className="text-6xl font-bold bg-gradient-primary bg-clip-text text-transparent animate-neon-flicker mb-4">
+        <div className={`text-center ${compact ? 'mb-3' : 'mb-8'}`}>
+          <h1
+            className={`${compact ? 'text-3xl mb-1' : 'text-6xl mb-4'} font-bold bg-gradient-primary bg-clip-text text-transparent animate-neon-flicker`}
+          >
             SNAKE
           </h1>
-          <div className="text-2xl text-neon-blue font-mono">
-            SCORE: <span className="text-neon-pink">{score.toString().padStart(6, '0')}</span>
+          <div className={`flex items-center justify-center ${compact ? 'gap-2 text-base' : 'gap-4 text-2xl'} text-neon-blue font-mono`}>
+            <span>
+              SCORE: <span className="text-neon-pink">{score.toString().padStart(6, '0')}</span>
+            </span>
+            {/* Keyed by level so every level-up replays the entry animation. */}
+            {gamePhase !== 'menu' && gamePhase !== 'levels' && (
+              <span
+                key={speedLevel}
+                className={`${compact ? 'text-sm' : 'text-lg'} text-neon-purple animate-slide-in`}
+                title={`${difficulty.label}: ${tickMs} ms per tick`}
+              >
+                LV <span className="text-neon-pink">{speedLevel.toString().padStart(2, '0')}</span>
+              </span>
+            )}
+            {inGame && <EffectRings game={game} />}
           </div>
+          {level && gamePhase !== 'menu' && gamePhase !== 'levels' && (
+            <div className="text-sm text-cyber-light font-mono mt-2">
+              LEVEL {levelIndex + 1}: <span className="text-neon-purple">{level.name.toUpperCase()}</span> • TARGET{' '}
+              <span className="text-neon-blue">{level.targetScore}</span>
+            </div>
+          )}
+          {customLevel && !level && gamePhase !== 'menu' && gamePhase !== 'levels' && (
+            <div className="text-sm text-cyber-light font-mono mt-2">
+              CUSTOM LEVEL: <span className="text-neon-purple">{customLevel.name.toUpperCase()}</span>
+            </div>
+          )}
         </div>
 
         {/* Game Area */}
-        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6">
-          {gameState === 'menu' && (
+        <Card className={`bg-cyber-medium border-2 border-neon-purple shadow-glow-purple ${compact ? 'p-2' : 'p-6'}`}>
+          {gamePhase === 'menu' && (
             <div className="text-center py-20 animate-slide-in">
               <div className="mb-8">
                 <div className="text-4xl text-neon-purple mb-4 animate-glow-pulse">
                   NEURAL SNAKE
                 </div>
                 <div className="text-neon-blue mb-6 space-y-2">
-                  <div>Use arrow keys or WASD to move</div>
-                  <div>Press SPACEBAR to pause/resume</div>
+                  {touchActive ? (
+                    <div>Swipe on the board{touch.dpad ? ' or use the D-pad' : ''} to move</div>
+                  ) : (
+                    <>
+                      <div>Move with {moveKeys}</div>
+                      <div>Press {describeKeys(keyBindings, 'pause')} to pause/resume</div>
+                    </>
+                  )}
                   <div>Eat the glowing orbs to grow</div>
                 </div>
+                <div className="flex flex-wrap items-center justify-center gap-3">
+                  <Switch id="autopilot" checked={autopilot} onCheckedChange={setAutopilot} />
+                  <Label htmlFor="autopilot" className="text-neon-purple font-mono">
+                    AUTOPILOT
+                  </Label>
+                  <Select value={pilot} disabled={!autopilot} onValueChange={value => setPilot(value as Pilot)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="neural">Neural network</SelectItem>
+                      {Object.entries(BOTS).map(([id, bot]) => (
+                        <SelectItem key={id} value={id}>
+                          {bot.label} bot
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <BrainImportButton
+                    variant="ghost"
+                    size="sm"
+                    className="text-neon-blue"
+                    onLoad={file => {
+                      setBrain(networkFromBrainFile(file));
+                      setPilot('neural');
+                      setAutopilot(true);
+                    }}
+                  />
+                </div>
+                {autopilot && pilot !== 'neural' && (
+                  <div className="text-sm text-cyber-light mt-2">{BOTS[pilot].description}</div>
+                )}
+                <div className="text-sm text-cyber-light mt-2">{DIFFICULTIES[config.difficulty].description}</div>
+                <div className="flex flex-wrap items-center justify-center gap-3 mt-4">
+                  <span className="text-sm text-cyber-light font-mono">
+                    {preset ? GAME_PRESETS[preset].label.toUpperCase() : 'CUSTOM'} • {config.width}×{config.height}
+                  </span>
+                  <Select
+                    value={config.walls}
+                    onValueChange={value => setConfig({ ...config, walls: value as WallBehavior })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WALL_LABELS).map(([id, label]) => (
+                        <SelectItem key={id} value={id}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={config.difficulty}
+                    onValueChange={value => setConfig({ ...config, difficulty: value as DifficultyId })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DIFFICULTIES).map(([id, { label, scoreMultiplier }]) => (
+                        <SelectItem key={id} value={id}>
+                          {label} ×{scoreMultiplier}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <SettingsDialog config={config} onConfigChange={setConfig} onOpenChange={setSettingsOpen} />
+                  <AccountDialog />
+                </div>
+              </div>
+              <div className="flex flex-wrap justify-center gap-4">
+                <Button 
+                  onClick={() => startGame(null)}
+                  className="bg-gradient-primary hover:shadow-glow-strong text-white font-bold px-8 py-4 text-xl transition-all duration-300 hover:scale-105"
+                >
+                  INITIALIZE GAME
+                </Button>
+                <Button
+                  onClick={() => setGamePhase('levels')}
+                  variant="outline"
+                  className="border-neon-purple text-neon-purple font-bold px-8 py-4 text-xl transition-all duration-300 hover:scale-105"
+                >
+                  CAMPAIGN
+                </Button>
+              </div>
+              <div className="mt-6">
+                <Link to="/train" className="text-neon-blue hover:text-neon-pink underline font-mono">
+                  OPEN TRAINING LAB
+                </Link>
+                <span className="text-cyber-light mx-3">•</span>
+                <Link to="/editor" className="text-neon-blue hover:text-neon-pink underline font-mono">
+                  OPEN LEVEL EDITOR
+                </Link>
+                <span className="text-cyber-light mx-3">•</span>
+                <Link to="/leaderboard" className="text-neon-blue hover:text-neon-pink underline font-mono">
+                  LEADERBOARD
+                </Link>
               </div>
-              <Button 
-                onClick={startGame}
-                className="bg-gradient-primary hover:shadow-glow-strong text-white font-bold px-8 py-4 text-xl transition-all duration-300 hover:scale-105"
-              >
-                INITIALIZE GAME
-              </Button>
             </div>
           )}
 
-          {gameState === 'paused' && (
+          {gamePhase === 'levels' && (
+            <LevelSelect progress={progress} onPlay={startGame} onBack={() => setGamePhase('menu')} />
+          )}
+
+          {gamePhase === 'paused' && (
             <div className="text-center py-20 animate-slide-in">
               <div className="text-4xl text-neon-blue mb-6 animate-glow-pulse">
                 SYSTEM PAUSED
               </div>
               <div className="text-neon-purple">
-                Press SPACEBAR to resume
+                {touchActive ? 'Tap the play button to resume' : `Press ${describeKeys(keyBindings, 'pause')} to resume`}
+              </div>
+              <div className="mt-4">
+                <SettingsDialog config={config} onConfigChange={setConfig} onOpenChange={setSettingsOpen} />
               </div>
             </div>
           )}
 
-          {gameState === 'gameOver' && (
+          {gamePhase === 'gameOver' && (
             <div className="text-center py-20 animate-slide-in">
               <div className="text-4xl text-neon-pink mb-4 animate-glow-pulse">
-                GAME OVER
+                {game.status === 'won' ? 'BOARD CLEARED' : 'GAME OVER'}
               </div>
-              <div className="text-2xl text-neon-blue mb-6">
+              <div className="text-2xl text-neon-blue mb-2">
                 Final Score: <span className="text-neon-purple">{score}</span>
               </div>
-              <Button 
-                onClick={startGame}
-                className="bg-gradient-secondary hover:shadow-glow-strong text-white font-bold px-8 py-4 text-xl transition-all duration-300 hover:scale-105"
-              >
-                RESTART SYSTEM
-              </Button>
+              <div className="text-sm text-cyber-light font-mono mb-6">
+                SEED: <span className="text-neon-blue">{game.seed}</span>
+                <div>
+                  {difficulty.label.toUpperCase()} ×{difficulty.scoreMultiplier} • REACHED LV {speedLevel}
+                </div>
+              </div>
+              {Object.keys(game.eaten).length > 0 && (
+                <div className="flex flex-wrap justify-center gap-4 font-mono mb-6">
+                  {FOOD_TYPE_IDS.filter(type => game.eaten[type]).map(type => (
+                    <span key={type} title={FOOD_TYPES[type].label} className="text-neon-blue">
+                      {FOOD_TYPES[type].emoji} × <span className="text-neon-pink">{game.eaten[type]}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {level && (
+                <div className="text-neon-blue font-mono mb-6">
+                  {score >= level.targetScore
+                    ? nextLevel
+                      ? `TARGET REACHED • ${nextLevel.name.toUpperCase()} UNLOCKED`
+                      : 'TARGET REACHED • CAMPAIGN COMPLETE'
+                    : `TARGET ${level.targetScore} • BEST ${progress.bestScores[level.id] ?? 0}`}
+                  {autopilot && <div className="text-sm text-cyber-light">Autopilot runs don't count towards progress</div>}
+                </div>
+              )}
+              {/* Keyed by the replay so every finished game can be submitted once. */}
+              <ScoreSubmit key={replayId} score={score} config={game.config} level={level} autopilot={autopilot} />
+              <div className="flex flex-wrap justify-center gap-4">
+                {nextLevel && isLevelCleared(progress, levelIndex) && (
+                  <Button
+                    onClick={() => startGame(nextLevel)}
+                    className="bg-gradient-primary hover:shadow-glow-strong text-white font-bold px-8 py-4 text-xl transition-all duration-300 hover:scale-105"
+                  >
+                    NEXT LEVEL
+                  </Button>
+                )}
+                <Button 
+                  onClick={() => startGame()}
+                  className="bg-gradient-secondary hover:shadow-glow-strong text-white font-bold px-8 py-4 text-xl transition-all duration-300 hover:scale-105"
+                >
+                  RESTART SYSTEM
+                </Button>
+                {replayId && (
+                  <Button
+                    asChild
+                    variant="outline"
+                    className="border-neon-purple text-neon-purple font-bold px-8 py-4 text-xl transition-all duration-300 hover:scale-105"
+                  >
+                    <Link to={`/replay/${replayId}`}>WATCH REPLAY</Link>
+                  </Button>
+                )}
+                {level && (
+                  <Button variant="ghost" className="text-neon-blue font-bold px-8 py-4 text-xl" onClick={() => setGamePhase('levels')}>
+                    LEVELS
+                  </Button>
+                )}
+                {customLevel && !level && (
+                  <Button asChild variant="ghost" className="text-neon-blue font-bold px-8 py-4 text-xl">
+                    <Link to={`/editor${levelCodeQuery(encodeLevelCode({ ...customLevel, config }))}`}>EDIT LEVEL</Link>
+                  </Button>
+                )}
+              </div>
             </div>
           )}
 
-          {(gameState === 'playing' || gameState === 'paused') && (
-            <div className="relative">
-              {/* Game Grid */}
-              <div 
-                className="grid border border-neon-purple shadow-glow-purple mx-auto relative overflow-hidden"
-                style={{
-                  gridTemplateColumns: `repeat(${GRID_SIZE}, 1fr)`,
-                  gridTemplateRows: `repeat(${GRID_SIZE}, 1fr)`,
-                  width: '500px',
-                  height: '500px',
-                  background: 'linear-gradient(to bottom, #1a1a2e 0%, #2d2d44 50%, #4a4a5e 100%)',
-                }}
-              >
-                {/* Moon landscape crater effects */}
-                <div className="absolute inset-0 pointer-events-none">
-                  <div className="absolute top-1/4 left-1/3 w-20 h-20 rounded-full bg-black/20 blur-sm" />
-                  <div className="absolute top-1/2 right-1/4 w-16 h-16 rounded-full bg-black/15 blur-sm" />
-                  <div className="absolute bottom-1/3 left-1/2 w-24 h-24 rounded-full bg-black/10 blur-md" />
-                  <div className="absolute top-3/4 left-1/4 w-12 h-12 rounded-full bg-black/20 blur-sm" />
-                  <div className="absolute top-1/3 right-1/3 w-14 h-14 rounded-full bg-black/15 blur-sm" />
-                  {/* Rocky texture overlay */}
-                  <div className="absolute inset-0 opacity-10" style={{
-                    backgroundImage: 'radial-gradient(circle at 20% 30%, rgba(255,255,255,0.3) 1px, transparent 1px), radial-gradient(circle at 60% 70%, rgba(255,255,255,0.2) 1px, transparent 1px), radial-gradient(circle at 80% 20%, rgba(255,255,255,0.25) 1px, transparent 1px)',
-                    backgroundSize: '50px 50px, 70px 70px, 60px 60px'
-                  }} />
+          {inGame && (
+            <>
+              <div className={`relative ${touchActive ? 'touch-none' : ''}`} {...swipe}>
+                <div className="flex flex-col lg:flex-row items-center gap-6">
+                  <GameBoard
+                    className="w-full min-w-0 lg:flex-1"
+                    config={game.config}
+                    snake={snake}
+                    previousSnake={previousSnake}
+                    frames={gamePhase === 'playing' ? frames : undefined}
+                    food={food}
+                    foodType={game.foodType}
+                    foodTicksLeft={game.foodExpiresAt === null ? null : game.foodExpiresAt - game.tick}
+                    powerUp={game.powerUp}
+                    effects={game.effects}
+                  />
+                  {autopilot && pilot === 'neural' && (
+                    <div className="w-full max-w-xs">
+                      <div className="text-center text-neon-purple font-mono mb-2">NEURAL ACTIVITY</div>
+                      <NetworkView network={brain} activations={activations} />
+                    </div>
+                  )}
                 </div>
-                {Array.from({ length: GRID_SIZE * GRID_SIZE }).map((_, index) => {
-                  const x = index % GRID_SIZE;
-                  const y = Math.floor(index / GRID_SIZE);
-                  
-                  const isSnakeHead = snake[0]?.x === x && snake[0]?.y === y;
-                  const isSnakeBody = snake.slice(1).some(segment => segment.x === x && segment.y === y);
-                  const isFood = food.x === x && food.y === y;
 
-                  let cellClass = "border-cyber-light/20 border-[0.5px] transition-all duration-150 ease-linear relative";
-                  
-                  if (isSnakeHead) {
-                    cellClass += " bg-green-500/20";
-                  } else if (isSnakeBody) {
-                    cellClass += " bg-green-600/20";
-                  } else if (isFood) {
-                    cellClass += " bg-neon-blue/20";
-                  } else {
-                    cellClass += " bg-cyber-dark/50";
-                  }
-
-                  return (
-                    <div
-                      key={index}
-                      className={cellClass}
-                    >
-                      {isSnakeHead && (
-                        <>
-                          <div className="absolute inset-0 rounded-full bg-gradient-to-br from-green-400 via-green-500 to-green-600 shadow-lg shadow-green-500/50 transition-all duration-150 ease-linear" />
-                          <div className="absolute top-1/4 left-1/4 w-1.5 h-1.5 bg-yellow-400 rounded-full border border-black/30 transition-all duration-150 ease-linear" />
-                          <div className="absolute top-1/4 right-1/4 w-1.5 h-1.5 bg-yellow-400 rounded-full border border-black/30 transition-all duration-150 ease-linear" />
-                          <div className="absolute bottom-1/3 left-1/2 -translate-x-1/2 w-2 h-1 bg-red-500/80 rounded-full" />
-                        </>
-                      )}
-                      {isSnakeBody && (
-                        <>
-                          <div className="absolute inset-1 rounded-full bg-gradient-to-br from-green-500 via-green-600 to-green-700 shadow-lg shadow-green-600/30 transition-all duration-150 ease-linear" />
-                          <div className="absolute top-1/4 left-1/3 w-1 h-1 bg-green-800/60 rounded-full" />
-                          <div className="absolute top-1/2 right-1/3 w-0.5 h-0.5 bg-green-800/50 rounded-full" />
-                          <div className="absolute bottom-1/3 left-1/4 w-0.5 h-0.5 bg-green-800/50 rounded-full" />
-                        </>
-                      )}
-                      {isFood && (
-                        <div className="absolute inset-0 flex items-center justify-center animate-glow-pulse transition-all duration-150 ease-linear">
-                          <span className="text-3xl">🍌</span>
-                        </div>
-                      )}
+                {/* Pause overlay */}
+                {gamePhase === 'paused' && (
+                  <div className="absolute inset-0 bg-cyber-dark/80 flex items-center justify-center">
+                    <div className="text-4xl text-neon-blue animate-glow-pulse">
+                      PAUSED
                     </div>
-                  );
-                })}
-              </div>
-
-              {/* Pause overlay */}
-              {gameState === 'paused' && (
-                <div className="absolute inset-0 bg-cyber-dark/80 flex items-center justify-center">
-                  <div className="text-4xl text-neon-blue animate-glow-pulse">
-                    PAUSED
                   </div>
-                </div>
+                )}
+              </div>
+              {touchActive && (
+                <TouchControls paused={gamePhase === 'paused'} showDpad={touch.dpad && !autopilot} onTurn={steer} onPause={togglePause} />
               )}
-            </div>
+            </>
           )}
         </Card>
 
         {/* Controls info */}
-        <div className="text-center mt-6 text-cyber-light space-y-1">
-          <div>Controls: Arrow Keys / WASD to move • SPACEBAR to pause/resume</div>
-          <div className="text-neon-purple">Stay within the neural grid boundaries</div>
+        <div className={`text-center ${compact ? 'mt-3 text-sm' : 'mt-6'} text-cyber-light space-y-1`}>
+          {!compact && (
+            <div>
+              Controls: {moveKeys} to move • {describeKeys(keyBindings, 'pause')} to pause/resume •{' '}
+              {describeKeys(keyBindings, 'restart')} to restart • {describeKeys(keyBindings, 'menu')} for the menu
+            </div>
+          )}
+          <div className="text-neon-purple">
+            {game.config.walls === 'wrap'
+              ? 'The grid edges fold over: leave one side to enter the other'
+              : 'Stay within the neural grid boundaries'}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp, Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DIRECTIONS, type Direction } from '@/game/engine';
+
+type TouchControlsProps = {
+  paused: boolean;
+  /** Without the D-pad only the pause button is shown; steering is left to swipes. */
+  showDpad: boolean;
+  onTurn: (direction: Direction) => void;
+  onPause: () => void;
+};
+
+const PAD: { direction: Direction; label: string; icon: React.ReactNode; className: string }[] = [
+  { direction: DIRECTIONS.up, label: 'Up', icon: <ArrowUp />, className: 'col-start-2 row-start-1' },
+  { direction: DIRECTIONS.left, label: 'Left', icon: <ArrowLeft />, className: 'col-start-1 row-start-2' },
+  { direction: DIRECTIONS.right, label: 'Right', icon: <ArrowRight />, className: 'col-start-3 row-start-2' },
+  { direction: DIRECTIONS.down, label: 'Down', icon: <ArrowDown />, className: 'col-start-2 row-start-3' },
+];
+
+const BUTTON_CLASS = 'h-14 w-14 border-neon-purple bg-cyber-dark/60 text-neon-blue touch-none [&_svg]:size-6';
+
+// Buttons react on pointer down rather than click, so a turn lands the moment
+// the thumb touches instead of when it lifts.
+const TouchControls = ({ paused, showDpad, onTurn, onPause }: TouchControlsProps) => {
+  const press = (action: () => void) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    action();
+  };
+
+  const pauseButton = (
+    <Button
+      variant="outline"
+      size="icon"
+      aria-label={paused ? 'Resume' : 'Pause'}
+      className={`${BUTTON_CLASS} ${showDpad ? 'col-start-2 row-start-2' : ''} text-neon-pink`}
+      onPointerDown={press(onPause)}
+    >
+      {paused ? <Play /> : <Pause />}
+    </Button>
+  );
+
+  if (!showDpad) return <div className="flex justify-center mt-3 select-none">{pauseButton}</div>;
+
+  return (
+    <div className="grid grid-cols-3 grid-rows-3 gap-2 w-fit mx-auto mt-3 select-none">
+      {PAD.map(({ direction, label, icon, className }) => (
+        <Button
+          key={label}
+          variant="outline"
+          size="icon"
+          aria-label={label}
+          disabled={paused}
+          className={`${BUTTON_CLASS} ${className}`}
+          onPointerDown={press(() => onTurn(direction))}
+        >
+          {icon}
+        </Button>
+      ))}
+      {pauseButton}
+    </div>
+  );
+};
+
+export default TouchControls;
@@ -0,0 +1,323 @@
+import React, { useEffect, useRef } from 'react';
+import type { GameConfig } from '@/game/config';
+import { FOOD_TYPES, type FoodTypeId } from '@/game/food';
+import { POWER_UPS } from '@/game/powerups';
+import { useSettings } from '@/hooks/use-settings';
+import { EXPIRY_WARNING_TICKS, MOON_GRADIENT, edgeClass, interpolate, type SizedBoardProps } from '@/components/board/shared';
+
+// Sprites are drawn this many cells wide so glows and oversized emoji have
+// room around the cell they belong to.
+const SPRITE_CELLS = 2;
+
+// Sprites are keyed by cell size, so resizing leaves old ones behind; the
+// cache starts over once it holds this many.
+const MAX_SPRITES = 64;
+
+const PULSE_MS = 2000;
+
+// Cell tints and glows under each food, as in the DOM renderer.
+const FOOD_CELL_STYLES: Record<FoodTypeId, { fill: string; glow?: string }> = {
+  banana: { fill: 'neon-blue/0.2' },
+  golden: { fill: 'rgba(250,204,21,0.3)', glow: 'rgba(250,204,21,0.6)' },
+  shrink: { fill: 'rgba(99,102,241,0.3)' },
+  speed: { fill: 'rgba(239,68,68,0.3)' },
+  poison: { fill: 'rgba(132,204,22,0.3)', glow: 'rgba(132,204,22,0.6)' },
+};
+
+// Craters as centre (a share of the board plus a pixel offset), radius, darkness and blur.
+const CRATERS = [
+  { x: 1 / 3, dx: 40, y: 1 / 4, dy: 40, radius: 40, alpha: 0.2, blur: 4 },
+  { x: 3 / 4, dx: -32, y: 1 / 2, dy: 32, radius: 32, alpha: 0.15, blur: 4 },
+  { x: 1 / 2, dx: 48, y: 2 / 3, dy: -48, radius: 48, alpha: 0.1, blur: 12 },
+  { x: 1 / 4, dx: 24, y: 3 / 4, dy: 24, radius: 24, alpha: 0.2, blur: 4 },
+  { x: 2 / 3, dx: -28, y: 1 / 3, dy: 28, radius: 28, alpha: 0.15, blur: 4 },
+];
+
+// Rocky texture: one faint dot per tile, at a share of the tile.
+const ROCKS = [
+  { tile: 50, x: 0.2, y: 0.3, alpha: 0.3 },
+  { tile: 70, x: 0.6, y: 0.7, alpha: 0.2 },
+  { tile: 60, x: 0.8, y: 0.2, alpha: 0.25 },
+];
+
+type Layer = HTMLCanvasElement;
+
+const createLayer = (width: number, height: number): Layer => {
+  const layer = document.createElement('canvas');
+  layer.width = Math.ceil(width);
+  layer.height = Math.ceil(height);
+  return layer;
+};
+
+// Theme colours live in CSS custom properties as bare HSL triples, written
+// here as 'neon-purple/0.6'; anything else is used as is.
+const color = (value: string) => {
+  const [name, alpha = '1'] = value.split('/');
+  if (!/^[a-z-]+$/.test(name)) return value;
+  const hsl = getComputedStyle(document.documentElement).getPropertyValue(`--${name}`).trim();
+  return `hsl(${hsl} / ${alpha})`;
+};
+
+const sprites = new Map<string, Layer>();
+let spritePalette = '';
+
+// Sprites bake in the theme's colours, so a theme change starts the cache over.
+const matchPalette = (palette: string) => {
+  if (palette === spritePalette) return;
+  sprites.clear();
+  spritePalette = palette;
+};
+
+// Draws a sprite once per cell size and hands back the cached copy after
+// that. `draw` gets a context translated to the cell's top-left corner.
+const sprite = (key: string, cell: number, draw: (ctx: CanvasRenderingContext2D, cell: number) => void): Layer => {
+  const id = `${key}@${cell}`;
+  let cached = sprites.get(id);
+  if (!cached) {
+    if (sprites.size >= MAX_SPRITES) sprites.clear();
+    cached = createLayer(cell * SPRITE_CELLS, cell * SPRITE_CELLS);
+    const ctx = cached.getContext('2d');
+    if (ctx) {
+      ctx.translate((cell * (SPRITE_CELLS - 1)) / 2, (cell * (SPRITE_CELLS - 1)) / 2);
+      draw(ctx, cell);
+    }
+    sprites.set(id, cached);
+  }
+  return cached;
+};
+
+const circle = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) => {
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+};
+
+const diagonalGradient = (ctx: CanvasRenderingContext2D, from: number, to: number, stops: string[]) => {
+  const gradient = ctx.createLinearGradient(from, from, to, to);
+  stops.forEach((stop, i) => gradient.addColorStop(i / (stops.length - 1), stop));
+  return gradient;
+};
+
+const drawHead = (shield: boolean) => (ctx: CanvasRenderingContext2D, cell: number) => {
+  ctx.fillStyle = 'rgba(34,197,94,0.2)';
+  ctx.fillRect(0, 0, cell, cell);
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(34,197,94,0.5)';
+  ctx.shadowBlur = cell * 0.4;
+  ctx.shadowOffsetY = cell * 0.1;
+  ctx.fillStyle = diagonalGradient(ctx, 0, cell, ['#4ade80', '#22c55e', '#16a34a']);
+  circle(ctx, cell / 2, cell / 2, cell / 2);
+  ctx.fill();
+  ctx.restore();
+
+  if (shield) {
+    ctx.strokeStyle = color('neon-blue');
+    ctx.lineWidth = Math.max(cell * 0.08, 1);
+    circle(ctx, cell / 2, cell / 2, cell / 2 + ctx.lineWidth / 2);
+    ctx.stroke();
+  }
+
+  const eye = cell * 0.12;
+  ctx.fillStyle = '#facc15';
+  ctx.strokeStyle = 'rgba(0,0,0,0.3)';
+  ctx.lineWidth = Math.max(cell * 0.04, 0.5);
+  for (const x of [cell / 4 + eye, (cell * 3) / 4 - eye]) {
+    circle(ctx, x, cell / 4 + eye, eye);
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = 'rgba(239,68,68,0.8)';
+  ctx.beginPath();
+  ctx.ellipse(cell / 2, (cell * 2) / 3 - cell * 0.08, cell * 0.16, cell * 0.08, 0, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const drawBody = (ctx: CanvasRenderingContext2D, cell: number) => {
+  ctx.fillStyle = 'rgba(22,163,74,0.2)';
+  ctx.fillRect(0, 0, cell, cell);
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(22,163,74,0.3)';
+  ctx.shadowBlur = cell * 0.4;
+  ctx.shadowOffsetY = cell * 0.1;
+  ctx.fillStyle = diagonalGradient(ctx, 0, cell, ['#22c55e', '#16a34a', '#15803d']);
+  circle(ctx, cell / 2, cell / 2, cell * 0.34);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.fillStyle = 'rgba(22,101,52,0.6)';
+  circle(ctx, cell / 3 + cell * 0.08, cell / 4 + cell * 0.08, cell * 0.08);
+  ctx.fill();
+  ctx.fillStyle = 'rgba(22,101,52,0.5)';
+  circle(ctx, (cell * 2) / 3 - cell * 0.04, cell / 2 + cell * 0.04, cell * 0.04);
+  ctx.fill();
+  circle(ctx, cell / 4 + cell * 0.04, (cell * 2) / 3 - cell * 0.04, cell * 0.04);
+  ctx.fill();
+};
+
+const drawCellTint = (fill: string, glow?: string) => (ctx: CanvasRenderingContext2D, cell: number) => {
+  if (glow) {
+    ctx.shadowColor = glow;
+    ctx.shadowBlur = cell * 0.5;
+  }
+  ctx.fillStyle = color(fill);
+  ctx.fillRect(0, 0, cell, cell);
+};
+
+const drawEmoji = (emoji: string, scale: number) => (ctx: CanvasRenderingContext2D, cell: number) => {
+  ctx.font = `${cell * scale}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(emoji, cell / 2, cell / 2);
+};
+
+// Moon surface, grid lines and obstacles: everything that stays put for a
+// whole game, drawn once per board and pixel ratio.
+const drawBackground = (config: GameConfig, cell: number, ratio: number): Layer => {
+  const { width, height } = config;
+  const layer = createLayer(width * cell, height * cell);
+  const ctx = layer.getContext('2d');
+  if (!ctx) return layer;
+  const w = layer.width;
+  const h = layer.height;
+
+  const gradient = ctx.createLinearGradient(0, 0, 0, h);
+  MOON_GRADIENT.forEach((stop, i) => gradient.addColorStop(i / (MOON_GRADIENT.length - 1), stop));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, w, h);
+
+  for (const { x, dx, y, dy, radius, alpha, blur } of CRATERS) {
+    ctx.filter = `blur(${blur * ratio}px)`;
+    ctx.fillStyle = `rgba(0,0,0,${alpha})`;
+    circle(ctx, w * x + dx * ratio, h * y + dy * ratio, radius * ratio);
+    ctx.fill();
+  }
+  ctx.filter = 'none';
+
+  ctx.globalAlpha = 0.1;
+  for (const { tile, x, y, alpha } of ROCKS) {
+    ctx.fillStyle = `rgba(255,255,255,${alpha})`;
+    for (let top = 0; top < h; top += tile * ratio) {
+      for (let left = 0; left < w; left += tile * ratio) {
+        circle(ctx, left + tile * ratio * x, top + tile * ratio * y, ratio);
+        ctx.fill();
+      }
+    }
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = color('cyber-dark/0.5');
+  ctx.fillRect(0, 0, w, h);
+
+  ctx.strokeStyle = color('cyber-light/0.2');
+  ctx.lineWidth = ratio;
+  ctx.beginPath();
+  for (let x = 1; x < width; x++) {
+    ctx.moveTo(x * cell, 0);
+    ctx.lineTo(x * cell, h);
+  }
+  for (let y = 1; y < height; y++) {
+    ctx.moveTo(0, y * cell);
+    ctx.lineTo(w, y * cell);
+  }
+  ctx.stroke();
+
+  const obstacle = sprite('obstacle', cell, drawCellTint('neon-purple/0.6', color('neon-purple/0.5')));
+  const offset = (cell * (SPRITE_CELLS - 1)) / 2;
+  for (const { x, y } of config.obstacles) ctx.drawImage(obstacle, x * cell - offset, y * cell - offset);
+
+  return layer;
+};
+
+// Same look as the DOM board on a single canvas: the static background is
+// drawn once per game, everything else is stamped from cached sprites, so a
+// frame costs one image per snake segment whatever the board size.
+const CanvasBoard = ({
+  config,
+  cellPx,
+  snake,
+  previousSnake,
+  alpha = 1,
+  food,
+  foodType,
+  foodTicksLeft = null,
+  powerUp = null,
+  effects = {},
+  still = false,
+}: SizedBoardProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { settings } = useSettings();
+  const palette = `${settings.theme}:${settings.accessibility.highContrast}`;
+  // Redrawn when the board, its size or the theme changes. Built in the
+  // effect rather than during render, once the theme's classes are applied.
+  const background = useRef<{ config: GameConfig; cell: number; palette: string; layer: Layer } | null>(null);
+  const { width, height } = config;
+  const ratio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+  // Whole device pixels per cell keep grid lines and sprites crisp.
+  const cell = Math.max(Math.round(cellPx * ratio), 1);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    matchPalette(palette);
+    const cached = background.current;
+    if (!cached || cached.config !== config || cached.cell !== cell || cached.palette !== palette) {
+      background.current = { config, cell, palette, layer: drawBackground(config, cell, ratio) };
+    }
+
+    // Pulses run from 0 to 1 and back; reduced motion holds them at 1.
+    const wave = still ? 1 : (1 + Math.cos((performance.now() / PULSE_MS) * Math.PI * 2)) / 2;
+    const offset = (cell * (SPRITE_CELLS - 1)) / 2;
+    const stamp = (image: Layer, x: number, y: number, scale = 1) => {
+      const size = image.width * scale;
+      ctx.drawImage(image, (x + 0.5) * cell - size / 2, (y + 0.5) * cell - size / 2, size, size);
+    };
+
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.drawImage(background.current.layer, 0, 0);
+
+    if (food) {
+      const { fill, glow } = FOOD_CELL_STYLES[foodType];
+      stamp(sprite(`food-cell:${foodType}`, cell, drawCellTint(fill, glow)), food.x, food.y);
+      const expiring = foodTicksLeft !== null && foodTicksLeft <= EXPIRY_WARNING_TICKS;
+      ctx.globalAlpha = expiring ? 0.5 + 0.5 * wave : 0.8 + 0.2 * wave;
+      stamp(sprite(`emoji:${FOOD_TYPES[foodType].emoji}:1.2`, cell, drawEmoji(FOOD_TYPES[foodType].emoji, 1.2)), food.x, food.y, expiring ? 1 : 1.05 - 0.05 * wave);
+      ctx.globalAlpha = 1;
+    }
+
+    if (powerUp && (powerUp.position.x !== food?.x || powerUp.position.y !== food?.y)) {
+      const { x, y } = powerUp.position;
+      stamp(sprite('power-up-cell', cell, drawCellTint('neon-pink/0.2', color('neon-pink/0.5'))), x, y);
+      ctx.globalAlpha = 0.8 + 0.2 * wave;
+      stamp(sprite(`emoji:${POWER_UPS[powerUp.type].emoji}:0.9`, cell, drawEmoji(POWER_UPS[powerUp.type].emoji, 0.9)), x, y, 1.05 - 0.05 * wave);
+      ctx.globalAlpha = 1;
+    }
+
+    // Tail first, so the head ends up on top.
+    const head = sprite(effects.shield ? 'head:shield' : 'head', cell, drawHead(!!effects.shield));
+    const body = sprite('body', cell, drawBody);
+    ctx.globalAlpha = effects.ghost ? 0.5 : 1;
+    for (let i = snake.length - 1; i >= 0; i--) {
+      const { x, y } = interpolate(previousSnake?.[i], snake[i], alpha);
+      ctx.drawImage(i === 0 ? head : body, x * cell - offset, y * cell - offset);
+    }
+    ctx.globalAlpha = 1;
+  });
+
+  return (
+    <div className={`${edgeClass(config)} mx-auto overflow-hidden`} style={{ width: cellPx * width, height: cellPx * height }}>
+      <canvas
+        ref={canvasRef}
+        width={cell * width}
+        height={cell * height}
+        className="block w-full h-full"
+        role="img"
+        aria-label={`Snake board, ${width} by ${height}`}
+      />
+    </div>
+  );
+};
+
+export default CanvasBoard;
@@ -0,0 +1,141 @@
+import React, { memo } from 'react';
+import { FOOD_TYPES, type FoodTypeId } from '@/game/food';
+import { POWER_UPS } from '@/game/powerups';
+import { EXPIRY_WARNING_TICKS, MOON_GRADIENT, edgeClass, interpolate, type SizedBoardProps } from '@/components/board/shared';
+
+type BoardCellsProps = Omit<SizedBoardProps, 'snake' | 'previousSnake' | 'alpha' | 'effects' | 'still'>;
+
+const FOOD_CELL_CLASSES: Record<FoodTypeId, string> = {
+  banana: 'bg-neon-blue/20',
+  golden: 'bg-yellow-400/30 shadow-[0_0_12px_rgba(250,204,21,0.6)]',
+  shrink: 'bg-indigo-500/30',
+  speed: 'bg-red-500/30',
+  poison: 'bg-lime-500/30 shadow-[0_0_12px_rgba(132,204,22,0.6)]',
+};
+
+// Everything but the snake only changes between ticks, so it is kept out of
+// the per-frame re-renders that move the snake.
+const BoardCells = memo(({ config, food, foodType, foodTicksLeft = null, powerUp = null, cellPx }: BoardCellsProps) => {
+  const { width, height } = config;
+  const obstacles = new Set(config.obstacles.map(cell => cell.y * width + cell.x));
+
+  return (
+    <>
+      {Array.from({ length: width * height }).map((_, index) => {
+        const x = index % width;
+        const y = Math.floor(index / width);
+
+        const isFood = food?.x === x && food?.y === y;
+        const isPowerUp = powerUp?.position.x === x && powerUp?.position.y === y;
+        const isObstacle = obstacles.has(index);
+
+        let cellClass = "border-cyber-light/20 border-[0.5px] transition-all duration-150 ease-linear relative";
+
+        if (isFood) {
+          cellClass += ` ${FOOD_CELL_CLASSES[foodType]}`;
+        } else if (isPowerUp) {
+          cellClass += " bg-neon-pink/20 shadow-glow-pink";
+        } else if (isObstacle) {
+          cellClass += " bg-neon-purple/60 shadow-glow-purple";
+        } else {
+          cellClass += " bg-cyber-dark/50";
+        }
+
+        return (
+          <div
+            key={index}
+            className={cellClass}
+          >
+            {isFood && (
+              <div
+                className={`absolute inset-0 flex items-center justify-center transition-all duration-150 ease-linear ${
+                  foodTicksLeft !== null && foodTicksLeft <= EXPIRY_WARNING_TICKS ? 'animate-pulse' : 'animate-glow-pulse'
+                }`}
+                title={FOOD_TYPES[foodType].label}
+              >
+                <span style={{ fontSize: `${cellPx * 1.2}px`, lineHeight: 1 }}>{FOOD_TYPES[foodType].emoji}</span>
+              </div>
+            )}
+            {isPowerUp && !isFood && (
+              <div
+                className="absolute inset-0 flex items-center justify-center animate-glow-pulse"
+                title={POWER_UPS[powerUp.type].label}
+              >
+                <span style={{ fontSize: `${cellPx * 0.9}px`, lineHeight: 1 }}>{POWER_UPS[powerUp.type].emoji}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+});
+
+// One element per cell. Kept as a fallback for the canvas renderer.
+const DomBoard = ({ config, cellPx, snake, previousSnake, alpha = 1, effects = {}, ...cells }: SizedBoardProps) => {
+  const { width, height } = config;
+
+  return (
+    <div 
+      className={`grid ${edgeClass(config)} mx-auto relative overflow-hidden`}
+      style={{
+        gridTemplateColumns: `repeat(${width}, 1fr)`,
+        gridTemplateRows: `repeat(${height}, 1fr)`,
+        width: `${cellPx * width}px`,
+        height: `${cellPx * height}px`,
+        background: `linear-gradient(to bottom, ${MOON_GRADIENT[0]} 0%, ${MOON_GRADIENT[1]} 50%, ${MOON_GRADIENT[2]} 100%)`,
+      }}
+    >
+      {/* Moon landscape crater effects */}
+      <div className="absolute inset-0 pointer-events-none">
+        <div className="absolute top-1/4 left-1/3 w-20 h-20 rounded-full bg-black/20 blur-sm" />
+        <div className="absolute top-1/2 right-1/4 w-16 h-16 rounded-full bg-black/15 blur-sm" />
+        <div className="absolute bottom-1/3 left-1/2 w-24 h-24 rounded-full bg-black/10 blur-md" />
+        <div className="absolute top-3/4 left-1/4 w-12 h-12 rounded-full bg-black/20 blur-sm" />
+        <div className="absolute top-1/3 right-1/3 w-14 h-14 rounded-full bg-black/15 blur-sm" />
+        {/* Rocky texture overlay */}
+        <div className="absolute inset-0 opacity-10" style={{
+          backgroundImage: 'radial-gradient(circle at 20% 30%, rgba(255,255,255,0.3) 1px, transparent 1px), radial-gradient(circle at 60% 70%, rgba(255,255,255,0.2) 1px, transparent 1px), radial-gradient(circle at 80% 20%, rgba(255,255,255,0.25) 1px, transparent 1px)',
+          backgroundSize: '50px 50px, 70px 70px, 60px 60px'
+        }} />
+      </div>
+      <BoardCells config={config} cellPx={cellPx} {...cells} />
+
+      {/* Snake, drawn over the cells so it can sit between them mid-step */}
+      <div className={`absolute inset-0 pointer-events-none ${effects.ghost ? 'opacity-50' : ''}`}>
+        {snake.map((segment, i) => {
+          const { x, y } = interpolate(previousSnake?.[i], segment, alpha);
+          return (
+            <div
+              key={i}
+              className={`absolute ${i === 0 ? 'bg-green-500/20 z-10' : 'bg-green-600/20'}`}
+              style={{ width: cellPx, height: cellPx, transform: `translate(${x * cellPx}px, ${y * cellPx}px)` }}
+            >
+              {i === 0 ? (
+                <>
+                  <div
+                    className={`absolute inset-0 rounded-full bg-gradient-to-br from-green-400 via-green-500 to-green-600 shadow-lg shadow-green-500/50 ${
+                      effects.shield ? 'ring-2 ring-neon-blue' : ''
+                    }`}
+                  />
+                  <div className="absolute top-1/4 left-1/4 w-1.5 h-1.5 bg-yellow-400 rounded-full border border-black/30" />
+                  <div className="absolute top-1/4 right-1/4 w-1.5 h-1.5 bg-yellow-400 rounded-full border border-black/30" />
+                  <div className="absolute bottom-1/3 left-1/2 -translate-x-1/2 w-2 h-1 bg-red-500/80 rounded-full" />
+                </>
+              ) : (
+                <>
+                  <div className="absolute inset-1 rounded-full bg-gradient-to-br from-green-500 via-green-600 to-green-700 shadow-lg shadow-green-600/30" />
+                  <div className="absolute top-1/4 left-1/3 w-1 h-1 bg-green-800/60 rounded-full" />
+                  <div className="absolute top-1/2 right-1/3 w-0.5 h-0.5 bg-green-800/50 rounded-full" />
+                  <div className="absolute bottom-1/3 left-1/4 w-0.5 h-0.5 bg-green-800/50 rounded-full" />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DomBoard;
@@ -0,0 +1,42 @@
+import type { GameConfig } from '@/game/config';
+import type { GameState, Position } from '@/game/engine';
+import type { FoodTypeId } from '@/game/food';
+
+export type BoardProps = {
+  config: GameConfig;
+  snake: Position[];
+  /** Snake before the latest step; with `alpha` the body is drawn part-way between the two. */
+  previousSnake?: Position[];
+  /** Progress from `previousSnake` to `snake`, 0 to 1. */
+  alpha?: number;
+  food: Position | null;
+  foodType: FoodTypeId;
+  /** Ticks until the food disappears, if it has a time limit. */
+  foodTicksLeft?: number | null;
+  powerUp?: GameState['powerUp'];
+  /** Active effects; ghost and shield change how the snake is drawn. */
+  effects?: GameState['effects'];
+};
+
+/** Board props once GameBoard has worked out how big a cell fits its container. */
+export type SizedBoardProps = BoardProps & {
+  cellPx: number;
+  /** Reduced motion: nothing pulses. */
+  still?: boolean;
+};
+
+// Food about to disappear blinks for this many ticks.
+export const EXPIRY_WARNING_TICKS = 10;
+
+export const MOON_GRADIENT = ['#1a1a2e', '#2d2d44', '#4a4a5e'];
+
+// Dashed, blue edges signal that the snake passes through them.
+export const edgeClass = (config: GameConfig) =>
+  config.walls === 'wrap' ? 'border-2 border-dashed border-neon-blue shadow-glow-blue' : 'border border-neon-purple shadow-glow-purple';
+
+// A segment glides from where it was to where it is. Jumps longer than one
+// cell (across a wrapping edge) snap instead of sweeping over the board.
+export const interpolate = (from: Position | undefined, to: Position, alpha: number): Position =>
+  !from || Math.abs(to.x - from.x) > 1 || Math.abs(to.y - from.y) > 1
+    ? to
+    : { x: from.x + (to.x - from.x) * alpha, y: from.y + (to.y - from.y) * alpha };
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import AgentPlayer from '@/components/AgentPlayer';
+import BrainImportButton from '@/components/BrainImportButton';
+import NetworkView from '@/components/NetworkView';
+import { createNeuralAgent } from '@/game/agents/neural';
+import {
+  CROSSOVER_LABELS,
+  DEFAULT_EVOLUTION_CONFIG,
+  FITNESS_FUNCTIONS,
+  type CrossoverMethod,
+  type EvolutionConfig,
+  type EvolutionOrigin,
+  type FitnessFunctionId,
+  type GenerationStats,
+} from '@/game/neural/evolution';
+import { brainFileName, createBrainFile, networkFromBrainFile, type BrainFile } from '@/game/neural/brainFile';
+import { topologyOf, type Network } from '@/game/neural/network';
+import { downloadJson } from '@/lib/files';
+import type { EvolutionRequest, EvolutionResponse } from '@/workers/evolution.worker';
+
+type TrainingStatus = 'idle' | 'running' | 'paused';
+
+const chartConfig = {
+  best: { label: 'Best', color: 'hsl(var(--neon-pink))' },
+  mean: { label: 'Mean', color: 'hsl(var(--neon-blue))' },
+  median: { label: 'Median', color: 'hsl(var(--neon-purple))' },
+} satisfies ChartConfig;
+
+const topologyLabel = (network: Network) => topologyOf(network).join('-');
+
+const EvolutionPanel = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const [status, setStatus] = useState<TrainingStatus>('idle');
+  const [config, setConfig] = useState<EvolutionConfig>(DEFAULT_EVOLUTION_CONFIG);
+  const [history, setHistory] = useState<GenerationStats[]>([]);
+  const [champion, setChampion] = useState<EvolutionResponse['champion'] | null>(null);
+  const [activations, setActivations] = useState<number[][]>([]);
+  const [origin, setOrigin] = useState<EvolutionOrigin | null>(null);
+
+  const latest = history[history.length - 1];
+
+  const post = (message: EvolutionRequest) => workerRef.current?.postMessage(message);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const startTraining = () => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../../workers/evolution.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EvolutionResponse>) => {
+      setHistory(previous => [...previous, event.data.stats]);
+      setChampion(event.data.champion);
+    };
+    workerRef.current = worker;
+    setHistory([]);
+    setChampion(null);
+    post({ type: 'start', config, origin: origin ?? undefined });
+    setStatus('running');
+  };
+
+  const pauseTraining = () => {
+    post({ type: 'pause' });
+    setStatus('paused');
+  };
+
+  const resumeTraining = () => {
+    post({ type: 'resume' });
+    setStatus('running');
+  };
+
+  const importBrain = (file: BrainFile) =>
+    setOrigin({ network: networkFromBrainFile(file), generation: file.training.generation });
+
+  const exportChampion = () => {
+    if (!champion) return;
+    const file = createBrainFile(champion.network, {
+      method: 'neuroevolution',
+      generation: latest?.generation ?? 0,
+      fitness: champion.fitness,
+      score: champion.score,
+    });
+    downloadJson(brainFileName(file), file);
+  };
+
+  const updateConfig = <K extends keyof EvolutionConfig>(key: K, value: EvolutionConfig[K]) =>
+    setConfig(previous => ({ ...previous, [key]: value }));
+
+  // Freeze the champion while it is on screen so new generations don't restart its game.
+  const championNetwork: Network | null = status === 'paused' ? champion?.network ?? null : null;
+  const championAgent = useMemo(() => (championNetwork ? createNeuralAgent(championNetwork) : null), [championNetwork]);
+  const handleChampionStep = useCallback(() => {
+    if (championAgent) setActivations(championAgent.activations);
+  }, [championAgent]);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center text-2xl text-neon-blue font-mono">
+        GENERATION: <span className="text-neon-pink">{(latest?.generation ?? 0).toString().padStart(4, '0')}</span>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+        {/* Settings */}
+        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6 space-y-6">
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">POPULATION: {config.populationSize}</Label>
+            <Slider
+              min={20}
+              max={500}
+              step={10}
+              value={[config.populationSize]}
+              disabled={status === 'running'}
+              onValueChange={([value]) => updateConfig('populationSize', value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">MUTATION RATE: {config.mutationRate.toFixed(2)}</Label>
+            <Slider
+              min={0.01}
+              max={0.5}
+              step={0.01}
+              value={[config.mutationRate]}
+              disabled={status === 'running'}
+              onValueChange={([value]) => updateConfig('mutationRate', value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">CROSSOVER</Label>
+            <Select
+              value={config.crossover}
+              disabled={status === 'running'}
+              onValueChange={value => updateConfig('crossover', value as CrossoverMethod)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CROSSOVER_LABELS).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">FITNESS</Label>
+            <Select
+              value={config.fitness}
+              disabled={status === 'running'}
+              onValueChange={value => updateConfig('fitness', value as FitnessFunctionId)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FITNESS_FUNCTIONS).map(([id, { label }]) => (
+                  <SelectItem key={id} value={id}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {status === 'running' && (
+              <Button onClick={pauseTraining} className="bg-gradient-secondary text-white font-bold">
+                PAUSE &amp; WATCH
+              </Button>
+            )}
+            {status === 'paused' && (
+              <Button onClick={resumeTraining} className="bg-gradient-primary text-white font-bold">
+                RESUME
+              </Button>
+            )}
+            <Button
+              onClick={startTraining}
+              variant={status === 'idle' ? 'default' : 'outline'}
+              className={status === 'idle' ? 'bg-gradient-primary text-white font-bold' : 'font-bold'}
+            >
+              {status === 'idle' ? 'START TRAINING' : 'RESTART'}
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <BrainImportButton variant="outline" size="sm" disabled={status === 'running'} onLoad={importBrain}>
+              CONTINUE FROM FILE
+            </BrainImportButton>
+            <Button variant="outline" size="sm" disabled={!champion} onClick={exportChampion}>
+              <Download />
+              EXPORT CHAMPION
+            </Button>
+          </div>
+          {origin && (
+            <div className="font-mono text-xs text-cyber-light">
+              Next run starts from a {topologyLabel(origin.network)} brain at generation {origin.generation}.
+            </div>
+          )}
+
+          {latest && (
+            <div className="font-mono text-sm text-cyber-light space-y-1">
+              <div>
+                BEST FITNESS: <span className="text-neon-pink">{latest.best.toFixed(1)}</span>
+              </div>
+              <div>
+                BEST SCORE: <span className="text-neon-pink">{latest.bestScore}</span>
+              </div>
+              {champion && (
+                <div>
+                  CHAMPION SCORE: <span className="text-neon-pink">{champion.score}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </Card>
+
+        {/* Fitness chart */}
+        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6">
+          <div className="text-neon-purple font-mono mb-4">FITNESS PER GENERATION</div>
+          <ChartContainer config={chartConfig} className="w-full">
+            <LineChart data={history} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="generation" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="best" type="monotone" stroke="var(--color-best)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line dataKey="mean" type="monotone" stroke="var(--color-mean)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line dataKey="median" type="monotone" stroke="var(--color-median)" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+        </Card>
+      </div>
+
+      {/* Champion viewer */}
+      {championAgent && championNetwork && (
+        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6 animate-slide-in">
+          <div className="text-center text-neon-purple font-mono mb-4">CURRENT CHAMPION</div>
+          <div className="flex flex-col lg:flex-row items-center justify-center gap-6">
+            <AgentPlayer agent={championAgent} onStep={handleChampionStep} />
+            <div className="w-full max-w-xs">
+              <NetworkView network={championNetwork} activations={activations} />
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default EvolutionPanel;
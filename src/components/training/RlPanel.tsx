@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import AgentPlayer from '@/components/AgentPlayer';
+import { createQAgent } from '@/game/agents/qlearning';
+import { forward } from '@/game/neural/network';
+import { createQTable } from '@/game/rl/policies';
+import type { RewardConfig } from '@/game/rl/rewards';
+import {
+  DEFAULT_DQN_LEARNING_RATE,
+  DEFAULT_RL_CONFIG,
+  RL_METHOD_LABELS,
+  type EpisodeStats,
+  type RlConfig,
+  type RlMethod,
+} from '@/game/rl/trainer';
+import type { RlRequest, RlResponse } from '@/workers/rl.worker';
+
+type TrainingStatus = 'idle' | 'running' | 'paused';
+
+type Policy = Extract<RlResponse, { type: 'policy' }>;
+
+// Charts only keep the most recent episodes; thousands of points make recharts crawl.
+const CHART_EPISODES = 1000;
+const AVERAGE_WINDOW = 50;
+
+const rewardChartConfig = {
+  reward: { label: 'Reward', color: 'hsl(var(--neon-purple))' },
+  average: { label: `Mean of last ${AVERAGE_WINDOW}`, color: 'hsl(var(--neon-pink))' },
+} satisfies ChartConfig;
+
+const epsilonChartConfig = {
+  epsilon: { label: 'Epsilon', color: 'hsl(var(--neon-blue))' },
+} satisfies ChartConfig;
+
+const REWARD_SLIDERS: { key: keyof RewardConfig; label: string; max: number; step: number }[] = [
+  { key: 'food', label: 'FOOD REWARD', max: 50, step: 1 },
+  { key: 'death', label: 'DEATH PENALTY', max: 50, step: 1 },
+  { key: 'step', label: 'STEP PENALTY', max: 0.5, step: 0.01 },
+  { key: 'distance', label: 'DISTANCE SHAPING', max: 1, step: 0.01 },
+];
+
+const RlPanel = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const [status, setStatus] = useState<TrainingStatus>('idle');
+  const [config, setConfig] = useState<RlConfig>(DEFAULT_RL_CONFIG);
+  const [history, setHistory] = useState<(EpisodeStats & { average: number })[]>([]);
+  const [bestScore, setBestScore] = useState(0);
+  const [policy, setPolicy] = useState<Policy | null>(null);
+
+  const latest = history[history.length - 1];
+
+  const post = (message: RlRequest) => workerRef.current?.postMessage(message);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const appendEpisodes = (stats: EpisodeStats[]) => {
+    setBestScore(best => Math.max(best, ...stats.map(episode => episode.score)));
+    setHistory(previous => {
+      const next = [...previous];
+      for (const episode of stats) {
+        const window = [...next.slice(-(AVERAGE_WINDOW - 1)), episode];
+        const average = window.reduce((sum, { reward }) => sum + reward, 0) / window.length;
+        next.push({ ...episode, average });
+      }
+      return next.slice(-CHART_EPISODES);
+    });
+  };
+
+  const startTraining = () => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../../workers/rl.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<RlResponse>) => {
+      if (event.data.type === 'episodes') appendEpisodes(event.data.stats);
+      else setPolicy(event.data);
+    };
+    workerRef.current = worker;
+    setHistory([]);
+    setBestScore(0);
+    setPolicy(null);
+    post({ type: 'start', config });
+    setStatus('running');
+  };
+
+  const pauseTraining = () => {
+    post({ type: 'pause' });
+    setStatus('paused');
+  };
+
+  const resumeTraining = () => {
+    post({ type: 'resume' });
+    setPolicy(null);
+    setStatus('running');
+  };
+
+  const updateConfig = <K extends keyof RlConfig>(key: K, value: RlConfig[K]) =>
+    setConfig(previous => ({ ...previous, [key]: value }));
+
+  const updateReward = (key: keyof RewardConfig, value: number) =>
+    setConfig(previous => ({ ...previous, rewards: { ...previous.rewards, [key]: value } }));
+
+  const changeMethod = (method: RlMethod) =>
+    setConfig(previous => ({
+      ...previous,
+      method,
+      learningRate: method === 'dqn' ? DEFAULT_DQN_LEARNING_RATE : DEFAULT_RL_CONFIG.learningRate,
+    }));
+
+  const policyAgent = useMemo(() => {
+    if (!policy) return null;
+    if (policy.table) return createQAgent(createQTable(0, policy.table));
+    const { network } = policy;
+    return network ? createQAgent({ values: sensors => forward(network, sensors)[network.layers.length] }) : null;
+  }, [policy]);
+
+  const learningRateMax = config.method === 'dqn' ? 0.01 : 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center text-2xl text-neon-blue font-mono">
+        EPISODE: <span className="text-neon-pink">{(latest?.episode ?? 0).toString().padStart(6, '0')}</span>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+        {/* Settings */}
+        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6 space-y-6">
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">METHOD</Label>
+            <Select value={config.method} disabled={status === 'running'} onValueChange={value => changeMethod(value as RlMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RL_METHOD_LABELS).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">LEARNING RATE: {config.learningRate.toPrecision(2)}</Label>
+            <Slider
+              min={learningRateMax / 1000}
+              max={learningRateMax}
+              step={learningRateMax / 1000}
+              value={[config.learningRate]}
+              disabled={status === 'running'}
+              onValueChange={([value]) => updateConfig('learningRate', value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">DISCOUNT: {config.discount.toFixed(2)}</Label>
+            <Slider
+              min={0.5}
+              max={0.99}
+              step={0.01}
+              value={[config.discount]}
+              disabled={status === 'running'}
+              onValueChange={([value]) => updateConfig('discount', value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neon-blue font-mono">EPSILON DECAY: {config.epsilonDecay.toFixed(3)}</Label>
+            <Slider
+              min={0.9}
+              max={0.999}
+              step={0.001}
+              value={[config.epsilonDecay]}
+              disabled={status === 'running'}
+              onValueChange={([value]) => updateConfig('epsilonDecay', value)}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <div className="text-neon-purple font-mono">REWARD SHAPING</div>
+            {REWARD_SLIDERS.map(({ key, label, max, step }) => (
+              <div key={key} className="space-y-2">
+                <Label className="text-neon-blue font-mono">
+                  {label}: {config.rewards[key]}
+                </Label>
+                <Slider
+                  min={0}
+                  max={max}
+                  step={step}
+                  value={[config.rewards[key]]}
+                  disabled={status === 'running'}
+                  onValueChange={([value]) => updateReward(key, value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {status === 'running' && (
+              <Button onClick={pauseTraining} className="bg-gradient-secondary text-white font-bold">
+                PAUSE &amp; WATCH
+              </Button>
+            )}
+            {status === 'paused' && (
+              <Button onClick={resumeTraining} className="bg-gradient-primary text-white font-bold">
+                RESUME
+              </Button>
+            )}
+            <Button
+              onClick={startTraining}
+              variant={status === 'idle' ? 'default' : 'outline'}
+              className={status === 'idle' ? 'bg-gradient-primary text-white font-bold' : 'font-bold'}
+            >
+              {status === 'idle' ? 'START TRAINING' : 'RESTART'}
+            </Button>
+          </div>
+
+          {latest && (
+            <div className="font-mono text-sm text-cyber-light space-y-1">
+              <div>
+                EPSILON: <span className="text-neon-pink">{latest.epsilon.toFixed(3)}</span>
+              </div>
+              <div>
+                MEAN REWARD: <span className="text-neon-pink">{latest.average.toFixed(1)}</span>
+              </div>
+              <div>
+                BEST SCORE: <span className="text-neon-pink">{bestScore}</span>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {/* Charts */}
+        <div className="space-y-6">
+          <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6">
+            <div className="text-neon-purple font-mono mb-4">REWARD PER EPISODE</div>
+            <ChartContainer config={rewardChartConfig} className="w-full">
+              <LineChart data={history} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="episode" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="reward" type="monotone" stroke="var(--color-reward)" strokeWidth={1} dot={false} isAnimationActive={false} />
+                <Line dataKey="average" type="monotone" stroke="var(--color-average)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          </Card>
+          <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6">
+            <div className="text-neon-purple font-mono mb-4">EPSILON DECAY</div>
+            <ChartContainer config={epsilonChartConfig} className="w-full max-h-48">
+              <LineChart data={history} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="episode" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} domain={[0, 1]} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="epsilon" type="monotone" stroke="var(--color-epsilon)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          </Card>
+        </div>
+      </div>
+
+      {/* Policy viewer */}
+      {policyAgent && (
+        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6 animate-slide-in">
+          <div className="text-center text-neon-purple font-mono mb-4">LEARNED POLICY</div>
+          <div className="flex justify-center">
+            <AgentPlayer agent={policyAgent} />
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RlPanel;
@@ -0,0 +1,18 @@
+import type { Direction, GameState } from '../engine';
+
+/** Anything that can steer the snake: a trained network, a search bot, a replay. */
+export type Agent = {
+  id: string;
+  /** Picks the direction to feed into the next step; `null` keeps the current heading. */
+  decide(state: GameState): Direction | null;
+};
+
+// Screen coordinates grow downwards, so turning left maps (x, y) to (y, -x).
+// The `|| 0` avoids handing out -0, which would survive into JSON and replays.
+export const turnLeft = (direction: Direction): Direction => ({ x: direction.y, y: -direction.x || 0 });
+export const turnRight = (direction: Direction): Direction => ({ x: -direction.y || 0, y: direction.x });
+
+export type RelativeTurn = 'left' | 'straight' | 'right';
+
+export const applyTurn = (direction: Direction, turn: RelativeTurn): Direction =>
+  turn === 'left' ? turnLeft(direction) : turn === 'right' ? turnRight(direction) : direction;
@@ -0,0 +1,33 @@
+import { edibleFood } from '../engine';
+import { directionTo, findPath, hazards, manhattan, roomiestMove, safeMoves, snakeAfterPath } from './search';
+import type { Agent } from './agent';
+
+// A* to the food, but only when the snake could still reach its own tail
+// after eating. Otherwise it stalls by following its tail, taking the long
+// way round so the body has time to uncover a safe route.
+export const createAStarBot = (): Agent => ({
+  id: 'astar',
+  decide(state) {
+    const head = state.snake[0];
+    const tail = (snake: typeof state.snake) => snake[snake.length - 1];
+
+    const food = edibleFood(state);
+    const toFood = food && findPath(state.config, state.snake, food, { heuristic: true, heading: state.direction, avoid: hazards(state) });
+    if (toFood) {
+      const after = snakeAfterPath(state.snake, toFood, true);
+      if (after.length < 3 || findPath(state.config, after, tail(after), { heuristic: true })) {
+        return directionTo(state.config, head, toFood[0]);
+      }
+    }
+
+    const stalling = safeMoves(state)
+      .map(move => ({ move, after: snakeAfterPath(state.snake, [move.position], false) }))
+      .filter(({ after }) => after.length < 2 || findPath(state.config, after, tail(after), { heuristic: true }));
+    if (stalling.length === 0) return roomiestMove(state);
+
+    const distance = (position: typeof head) => (food ? manhattan(state.config, position, food) : 0);
+    return stalling.reduce((best, option) =>
+      distance(option.move.position) > distance(best.move.position) ? option : best,
+    ).move.direction;
+  },
+});
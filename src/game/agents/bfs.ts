@@ -0,0 +1,13 @@
+import { edibleFood } from '../engine';
+import { directionTo, findPath, hazards, roomiestMove } from './search';
+import type { Agent } from './agent';
+
+// Follows the shortest path to the food, or stalls for space when there is none.
+export const createBfsBot = (): Agent => ({
+  id: 'bfs',
+  decide(state) {
+    const food = edibleFood(state);
+    const path = food && findPath(state.config, state.snake, food, { heading: state.direction, avoid: hazards(state) });
+    return path ? directionTo(state.config, state.snake[0], path[0]) : roomiestMove(state);
+  },
+});
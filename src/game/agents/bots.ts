@@ -0,0 +1,30 @@
+import type { Agent } from './agent';
+import { createAStarBot } from './astar';
+import { createBfsBot } from './bfs';
+import { createGreedyBot } from './greedy';
+import { createHamiltonianBot } from './hamiltonian';
+
+export type BotId = 'greedy' | 'bfs' | 'astar' | 'hamiltonian';
+
+export const BOTS: Record<BotId, { label: string; description: string; create: () => Agent }> = {
+  greedy: {
+    label: 'Greedy',
+    description: 'Steps toward the food, dodging only immediate danger',
+    create: createGreedyBot,
+  },
+  bfs: {
+    label: 'BFS',
+    description: 'Shortest path to the food by breadth-first search',
+    create: createBfsBot,
+  },
+  astar: {
+    label: 'A*',
+    description: 'A* to the food, chasing its tail when eating would trap it',
+    create: createAStarBot,
+  },
+  hamiltonian: {
+    label: 'Hamiltonian',
+    description: 'Follows a cycle through every cell, cutting across it around poison; fills most boards with an even side and no walls inside',
+    create: createHamiltonianBot,
+  },
+};
@@ -0,0 +1,18 @@
+import { edibleFood } from '../engine';
+import { manhattan, roomiestMove, safeMoves } from './search';
+import type { Agent } from './agent';
+
+// Heads for whichever safe neighbour is closest to the food, preferring to
+// keep going straight on ties. No look-ahead, so it traps itself easily.
+export const createGreedyBot = (): Agent => ({
+  id: 'greedy',
+  decide(state) {
+    const food = edibleFood(state);
+    const moves = safeMoves(state);
+    if (!food || moves.length === 0) return roomiestMove(state);
+
+    const score = (move: (typeof moves)[number]) =>
+      manhattan(state.config, move.position, food) - (move.direction === state.direction ? 0.5 : 0);
+    return moves.reduce((best, move) => (score(move) < score(best) ? move : best)).direction;
+  },
+});
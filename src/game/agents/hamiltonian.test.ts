@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_PRESETS } from '../config';
+import { DIRECTIONS, createInitialState, step, type GameState } from '../engine';
+import { FOOD_TABLES } from '../food';
+import { POWER_UP_IDS } from '../powerups';
+import { buildHamiltonianCycle, createHamiltonianBot } from './hamiltonian';
+
+const config = { ...GAME_PRESETS.tiny.config, foodTable: FOOD_TABLES.mixed.table, powerUps: POWER_UP_IDS };
+
+const play = (state: GameState, ticks = Infinity) => {
+  const bot = createHamiltonianBot();
+  while (state.status === 'playing' && ticks-- > 0) state = step(state, { direction: bot.decide(state) ?? undefined });
+  return state;
+};
+
+describe('buildHamiltonianCycle', () => {
+  it('visits every cell once, one step at a time, on every board that has a cycle', () => {
+    for (let width = 2; width <= 12; width++) {
+      for (let height = 2; height <= 12; height++) {
+        const cycle = buildHamiltonianCycle(width, height);
+        const possible = (width % 2 === 0 || height % 2 === 0) && Math.min(width, height) >= 3 && Math.max(width, height) >= 4;
+        expect(cycle !== null, `${width}×${height}`).toBe(possible);
+        if (!cycle) continue;
+        expect(new Set(cycle.map(({ x, y }) => y * width + x)).size).toBe(width * height);
+        cycle.forEach((cell, i) => {
+          const after = cycle[(i + 1) % cycle.length];
+          expect(Math.abs(cell.x - after.x) + Math.abs(cell.y - after.y), `${width}×${height} at ${i}`).toBe(1);
+        });
+      }
+    }
+  });
+});
+
+describe('createHamiltonianBot', () => {
+  it('cuts across its cycle around poison on the next cell', () => {
+    const cycle = buildHamiltonianCycle(config.width, config.height)!;
+    const state: GameState = {
+      ...createInitialState(1, config),
+      snake: [cycle[1], cycle[0], cycle[cycle.length - 1], cycle[cycle.length - 2]],
+      direction: DIRECTIONS.down,
+      food: cycle[2],
+      foodType: 'poison',
+      foodExpiresAt: 30,
+      powerUp: null,
+    };
+    expect(createHamiltonianBot().decide(state)).toEqual(DIRECTIONS.right);
+    expect(play(state, 40).status).toBe('playing');
+  });
+
+  it('fills a board with mixed food and power-ups', () => {
+    for (const seed of [2, 3, 5]) expect(play(createInitialState(seed, config)).status, `seed ${seed}`).toBe('won');
+  });
+});
@@ -0,0 +1,149 @@
+import { cellCount, type GameConfig } from '../config';
+import { DIRECTIONS, edibleFood, isOutOfBounds, samePosition, type Position } from '../engine';
+import { FOOD_TYPES, FOOD_TYPE_IDS, type FoodTable } from '../food';
+import { cellIndex, directionTo, hazards, roomiestMove, safeMoves } from './search';
+import { createAStarBot } from './astar';
+import type { Agent } from './agent';
+
+// Shortcuts are only taken while the snake is shorter than this share of the
+// board, so skipping part of the cycle can't strand the body.
+const SHORTCUT_LENGTH_SHARE = 0.5;
+const SHORTCUT_MARGIN = 3;
+
+/**
+ * Visit order of a Hamiltonian cycle built to be cut across: bands two or
+ * three rows high, each zigzagging up and down its columns, snake left and
+ * right down the board, then a strip two or three columns wide zigzags back up
+ * the left edge. Nearly every cell has a neighbour a few steps further along,
+ * so a cell on the way can be stepped around with little room. Needs an even
+ * number of rows (or columns, by transposing) and returns `null` for odd×odd
+ * boards, which have no Hamiltonian cycle, and boards under 3×4.
+ */
+export const buildHamiltonianCycle = (width: number, height: number): Position[] | null => {
+  if (height % 2 !== 0) {
+    if (width % 2 !== 0) return null;
+    return buildHamiltonianCycle(height, width)?.map(({ x, y }) => ({ x: y, y: x })) ?? null;
+  }
+  if (width < 3 || height < 4) return null;
+
+  // Each band has to end on the side the next one starts from, which takes an
+  // odd number of columns, and there have to be an even number of bands for
+  // the last one to end next to the strip.
+  const strip = width % 2 === 0 ? 3 : 2;
+  const bands = height % 4 === 0 ? Array<number>(height / 2).fill(2) : [3, 3, ...Array<number>((height - 6) / 2).fill(2)];
+
+  const cycle: Position[] = [];
+  let top = 0;
+  bands.forEach((rows, band) => {
+    for (let i = 0; i < width - strip; i++) {
+      const x = band % 2 === 0 ? strip + i : width - 1 - i;
+      for (let j = 0; j < rows; j++) cycle.push({ x, y: i % 2 === 0 ? top + j : top + rows - 1 - j });
+    }
+    top += rows;
+  });
+  for (let y = height - 1; y >= 0; y--) {
+    for (let j = 0; j < strip; j++) cycle.push({ x: (height - 1 - y) % 2 === 0 ? strip - 1 - j : j, y });
+  }
+  return cycle;
+};
+
+type CyclePlan = {
+  cycle: Position[];
+  /** Position of every cell along the cycle, by cell index. */
+  order: Int32Array;
+  /** Furthest any cell has to cut ahead to step around the cell after it. */
+  jump: number;
+};
+
+const planCycle = (config: GameConfig): CyclePlan | null => {
+  // A fixed cycle would run straight into obstacles.
+  if (config.obstacles.length > 0) return null;
+  const cycle = buildHamiltonianCycle(config.width, config.height);
+  if (!cycle) return null;
+  const order = new Int32Array(cellCount(config));
+  cycle.forEach((position, i) => {
+    order[cellIndex(config, position)] = i;
+  });
+  // Measured on solid walls: plans are shared by board size, and wrapping only adds ways across.
+  let jump = 0;
+  cycle.forEach((position, i) => {
+    let shortest = Infinity;
+    for (const direction of Object.values(DIRECTIONS)) {
+      const other = { x: position.x + direction.x, y: position.y + direction.y };
+      if (isOutOfBounds(config, other)) continue;
+      const skip = (order[cellIndex(config, other)] - i + cycle.length) % cycle.length;
+      if (skip > 1 && skip <= cycle.length / 2) shortest = Math.min(shortest, skip);
+    }
+    if (shortest < Infinity) jump = Math.max(jump, shortest);
+  });
+  return { cycle, order, jump };
+};
+
+const spawnsPoison = (table: FoodTable) => FOOD_TYPE_IDS.some(type => (table[type] ?? 0) > 0 && FOOD_TYPES[type].lethal);
+
+// Walks a fixed cycle through every cell, so it can never collide and
+// eventually fills the board. Poison on the path is cut around, though not
+// when it lands right after a cell with no way ahead, or on the last free
+// cells. Falls back to A*, with no such promise, where no cycle exists or
+// obstacles are in the way.
+export const createHamiltonianBot = (): Agent => {
+  const fallback = createAStarBot();
+  const plans = new Map<string, CyclePlan | null>();
+  const planFor = (config: GameConfig) => {
+    const key = `${config.width}x${config.height}`;
+    if (!plans.has(key)) plans.set(key, planCycle(config));
+    return plans.get(key);
+  };
+
+  return {
+    id: 'hamiltonian',
+    decide(state) {
+      const plan = planFor(state.config);
+      if (!plan) return fallback.decide(state);
+
+      const { cycle, order } = plan;
+      const cells = cycle.length;
+      const distance = (from: Position, to: Position) =>
+        (order[cellIndex(state.config, to)] - order[cellIndex(state.config, from)] + cells) % cells;
+
+      const head = state.snake[0];
+      const tail = state.snake[state.snake.length - 1];
+      const next = cycle[(order[cellIndex(state.config, head)] + 1) % cells];
+      const moves = safeMoves(state);
+      if (moves.length === 0) return null;
+
+      let target = moves.some(move => samePosition(move.position, next)) ? next : null;
+      // The body always lies along the cycle between tail and head, so any cell
+      // short of the tail is free to land on and keeps the walk on the cycle.
+      const room = state.snake.length === 1 ? cells : distance(head, tail);
+      // Poison that will still be there when the walk reaches it has to be
+      // jumped: take the first move that lands past it, skipping as little as possible.
+      const poison = hazards(state)[0];
+      const ahead = poison ? distance(head, poison) : 0;
+      const inTheWay = !!poison && ahead < room && (state.foodExpiresAt === null || ahead <= state.foodExpiresAt - state.tick);
+      if (inTheWay || !target) {
+        let jump: Position | null = null;
+        for (const move of moves) {
+          const skip = distance(head, move.position);
+          if (skip > ahead && skip < room && (!jump || skip < distance(head, jump))) jump = move.position;
+        }
+        target = jump ?? target;
+      }
+      const food = edibleFood(state);
+      if (food && state.snake.length < cells * SHORTCUT_LENGTH_SHARE) {
+        // Where poison can spawn, a shortcut also leaves room to cut around it later.
+        const reserve = SHORTCUT_MARGIN + (spawnsPoison(state.config.foodTable) ? plan.jump : 0);
+        const limit = Math.min(distance(head, food), room - reserve);
+        for (const move of moves) {
+          const skip = distance(head, move.position);
+          if (skip <= limit && (!target || skip > distance(head, target))) target = move.position;
+        }
+      }
+
+      if (target) return directionTo(state.config, head, target);
+      // Only a one-cell snake can be asked to reverse off the cycle; any safe move keeps it valid.
+      // Anything longer stays on the cycle, since leaving it gives up the room that keeps it alive.
+      return state.snake.length === 1 ? roomiestMove(state) : directionTo(state.config, head, next);
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import type { GameState } from '../engine';
+import { OUTPUT_LABELS } from '../neural/brains';
+import { argmax, forward, type Network } from '../neural/network';
+import { readSensors } from '../neural/sensors';
+import { applyTurn, type Agent } from './agent';
+
+export type NeuralAgent = Agent & {
+  network: Network;
+  /** Activations from the most recent decision, inputs first, for visualisation. */
+  activations: number[][];
+};
+
+export const createNeuralAgent = (network: Network): NeuralAgent => {
+  const agent: NeuralAgent = {
+    id: 'neural',
+    network,
+    activations: [],
+    decide(state: GameState) {
+      agent.activations = forward(network, readSensors(state));
+      const outputs = agent.activations[agent.activations.length - 1];
+      return applyTurn(state.direction, OUTPUT_LABELS[argmax(outputs)]);
+    },
+  };
+  return agent;
+};
@@ -0,0 +1,12 @@
+import { OUTPUT_LABELS } from '../neural/brains';
+import { readSensors } from '../neural/sensors';
+import { greedyAction, type QFunction } from '../rl/policies';
+import { applyTurn, type Agent } from './agent';
+
+// Plays a learned Q-function greedily, with no exploration.
+export const createQAgent = (q: Pick<QFunction, 'values'>): Agent => ({
+  id: 'q-learning',
+  decide(state) {
+    return applyTurn(state.direction, OUTPUT_LABELS[greedyAction(q, readSensors(state))]);
+  },
+});
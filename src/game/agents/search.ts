@@ -0,0 +1,166 @@
+// Board queries shared by the search bots. Paths are time-aware: a body
+// segment blocks its cell only until the tail has moved past it, and, as in
+// step(), the tail still blocks on the very next move.
+
+import { cellCount, type GameConfig } from '../config';
+import {
+  DIRECTIONS,
+  advance,
+  canTurn,
+  isOutOfBounds,
+  offsetBetween,
+  samePosition,
+  type Direction,
+  type GameState,
+  type Position,
+} from '../engine';
+import { FOOD_TYPES } from '../food';
+
+export type Move = { direction: Direction; position: Position };
+
+export const cellIndex = (config: GameConfig, position: Position) => position.y * config.width + position.x;
+
+export const neighbours = (config: GameConfig, position: Position): Move[] =>
+  Object.values(DIRECTIONS).map(direction => ({ direction, position: advance(config, position, direction) }));
+
+// Obstacles never move out of the way.
+const BLOCKED_FOREVER = 0x7fffffff;
+
+/** Cells that kill on contact without being part of the layout, i.e. poisonous food. */
+export const hazards = (state: GameState): Position[] =>
+  state.food && FOOD_TYPES[state.foodType].lethal ? [state.food] : [];
+
+/** For every cell, how many moves until it is free: 0 for empty cells. Cells in `avoid` count as obstacles. */
+export const occupancy = (config: GameConfig, snake: Position[], avoid: Position[] = []): Int32Array => {
+  const freeAfter = new Int32Array(cellCount(config));
+  for (const obstacle of [...config.obstacles, ...avoid]) freeAfter[cellIndex(config, obstacle)] = BLOCKED_FOREVER;
+  snake.forEach((segment, i) => {
+    freeAfter[cellIndex(config, segment)] = snake.length - i;
+  });
+  return freeAfter;
+};
+
+const isPassable = (config: GameConfig, freeAfter: Int32Array, position: Position, depth: number) =>
+  !isOutOfBounds(config, position) && depth > freeAfter[cellIndex(config, position)];
+
+/** Moves the engine will accept this tick that don't die immediately. A ghost passes through its body. */
+export const safeMoves = (state: GameState): Move[] => {
+  const freeAfter = occupancy(state.config, state.effects.ghost ? [] : state.snake, hazards(state));
+  return neighbours(state.config, state.snake[0]).filter(
+    move =>
+      (canTurn(state.direction, move.direction) || samePosition(state.direction, move.direction)) &&
+      isPassable(state.config, freeAfter, move.position, 1),
+  );
+};
+
+/** Grid distance, measured across the edges on a wrapping board. */
+export const manhattan = (config: GameConfig, a: Position, b: Position) => {
+  const offset = offsetBetween(config, a, b);
+  return Math.abs(offset.x) + Math.abs(offset.y);
+};
+
+type PathOptions = {
+  /** Use A* with a Manhattan heuristic instead of plain breadth-first search. */
+  heuristic?: boolean;
+  /** Current heading; the engine never lets the first move reverse it. */
+  heading?: Direction;
+  /** Extra cells to treat as obstacles, see hazards(). */
+  avoid?: Position[];
+};
+
+/**
+ * Shortest path from the snake's head to `goal`, excluding the head itself.
+ * Cells that are still blocked when first reached are not closed, so a
+ * longer route that arrives after the body has moved on can still use them.
+ */
+export const findPath = (
+  config: GameConfig,
+  snake: Position[],
+  goal: Position,
+  { heuristic = false, heading, avoid }: PathOptions = {},
+): Position[] | null => {
+  const freeAfter = occupancy(config, snake, avoid);
+  const start = snake[0];
+  const index = (position: Position) => cellIndex(config, position);
+  const depth = new Int32Array(cellCount(config)).fill(-1);
+  const parent = new Int32Array(cellCount(config)).fill(-1);
+  depth[index(start)] = 0;
+
+  // A plain array doubles as FIFO queue (BFS) or as a small sorted open list (A*).
+  const open: Position[] = [start];
+  const priority = (position: Position) => depth[index(position)] + (heuristic ? manhattan(config, position, goal) : 0);
+
+  while (open.length > 0) {
+    const current = open.shift();
+    if (samePosition(current, goal)) {
+      const path: Position[] = [];
+      for (let at = index(current); at !== index(start); at = parent[at]) {
+        path.unshift({ x: at % config.width, y: Math.floor(at / config.width) });
+      }
+      return path;
+    }
+
+    const nextDepth = depth[index(current)] + 1;
+    for (const { position, direction } of neighbours(config, current)) {
+      if (!isPassable(config, freeAfter, position, nextDepth)) continue;
+      if (nextDepth === 1 && heading && direction.x === -heading.x && direction.y === -heading.y) continue;
+      const cell = index(position);
+      if (depth[cell] !== -1) continue;
+      depth[cell] = nextDepth;
+      parent[cell] = index(current);
+      if (heuristic) {
+        const key = priority(position);
+        let at = open.length;
+        while (at > 0 && priority(open[at - 1]) > key) at--;
+        open.splice(at, 0, position);
+      } else {
+        open.push(position);
+      }
+    }
+  }
+  return null;
+};
+
+/** Number of cells reachable from `from`, used to avoid walking into pockets. */
+export const reachableArea = (config: GameConfig, snake: Position[], from: Position): number => {
+  const freeAfter = occupancy(config, snake);
+  const seen = new Uint8Array(cellCount(config));
+  seen[cellIndex(config, from)] = 1;
+  let frontier = [from];
+  let count = 0;
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: Position[] = [];
+    for (const position of frontier) {
+      count++;
+      for (const neighbour of neighbours(config, position)) {
+        const cell = cellIndex(config, neighbour.position);
+        if (!isPassable(config, freeAfter, neighbour.position, depth) || seen[cell]) continue;
+        seen[cell] = 1;
+        next.push(neighbour.position);
+      }
+    }
+    frontier = next;
+  }
+  return count;
+};
+
+/** The snake after following `path`, one segment longer if it eats at the end. */
+export const snakeAfterPath = (snake: Position[], path: Position[], grows: boolean): Position[] =>
+  [...[...path].reverse(), ...snake].slice(0, snake.length + (grows ? 1 : 0));
+
+/** Direction of a single move between adjacent cells, including a wrap across an edge. */
+export const directionTo = (config: GameConfig, from: Position, to: Position): Direction => offsetBetween(config, from, to);
+
+/** Fallback when no plan works: the safe move that leaves the most room. */
+export const roomiestMove = (state: GameState): Direction | null => {
+  let best: Move | null = null;
+  let bestArea = -1;
+  for (const move of safeMoves(state)) {
+    const area = reachableArea(state.config, snakeAfterPath(state.snake, [move.position], false), move.position);
+    if (area > bestArea) {
+      best = move;
+      bestArea = area;
+    }
+  }
+  return best?.direction ?? null;
+};
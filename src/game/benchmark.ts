@@ -0,0 +1,121 @@
+// Plays many seeded games per agent and summarises them, so agent changes can
+// be compared run-to-run. Pure apart from the clock used for games/second.
+
+import type { Agent } from './agents/agent';
+import { DEFAULT_GAME_CONFIG, WALL_LABELS, type GameConfig } from './config';
+import { encodeConfig } from './configCode';
+import { DIFFICULTIES } from './difficulty';
+import { FOOD_TABLES, FOOD_TYPES, FOOD_TYPE_IDS, findFoodTable } from './food';
+import { POWER_UPS } from './powerups';
+import { playGame, type GameOutcome, type HeadlessOptions } from './headless';
+
+export type BenchmarkOptions = HeadlessOptions & {
+  games: number;
+  /** Game `i` uses seed `firstSeed + i`, so every agent faces the same boards. */
+  firstSeed: number;
+};
+
+export type AgentReport = {
+  agent: string;
+  games: number;
+  score: { mean: number; median: number; max: number };
+  ticks: { mean: number; median: number; max: number };
+  outcomes: Record<GameOutcome, number>;
+  gamesPerSecond: number;
+};
+
+export type BenchmarkReport = {
+  options: BenchmarkOptions;
+  agents: AgentReport[];
+};
+
+const summarise = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    mean: values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1),
+    median: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+export const benchmarkAgent = (name: string, createAgent: () => Agent, options: BenchmarkOptions): AgentReport => {
+  const agent = createAgent();
+  const outcomes: Record<GameOutcome, number> = { wall: 0, obstacle: 0, self: 0, poison: 0, won: 0, starved: 0, timeout: 0 };
+  const scores: number[] = [];
+  const ticks: number[] = [];
+
+  const started = performance.now();
+  for (let i = 0; i < options.games; i++) {
+    const result = playGame(agent, options.firstSeed + i, options);
+    outcomes[result.outcome]++;
+    scores.push(result.score);
+    ticks.push(result.ticks);
+  }
+  const seconds = (performance.now() - started) / 1000;
+
+  return {
+    agent: name,
+    games: options.games,
+    score: summarise(scores),
+    ticks: summarise(ticks),
+    outcomes,
+    gamesPerSecond: options.games / Math.max(seconds, 1e-9),
+  };
+};
+
+const format = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const percent = (count: number, total: number) => `${((count / Math.max(total, 1)) * 100).toFixed(1)}%`;
+
+const describeFood = (config: GameConfig) => {
+  const table = findFoodTable(config.foodTable);
+  if (table) return FOOD_TABLES[table].label.toLowerCase();
+  return FOOD_TYPE_IDS.filter(type => config.foodTable[type])
+    .map(type => `${FOOD_TYPES[type].label.toLowerCase()} ${config.foodTable[type]}`)
+    .join(', ');
+};
+
+// Every rule that changes how games play out, so reports from different rule
+// sets can't be mistaken for each other. The rules code replays them exactly.
+const describeRules = (config: GameConfig) =>
+  [
+    `${config.width}×${config.height} board`,
+    WALL_LABELS[config.walls].toLowerCase(),
+    config.obstacles.length > 0 ? `${config.obstacles.length} obstacle tiles` : 'no obstacles',
+    `start length ${config.startLength}`,
+    `${config.pointsPerFood} points per food`,
+    `food: ${describeFood(config)}`,
+    `power-ups: ${config.powerUps.length > 0 ? config.powerUps.map(id => POWER_UPS[id].label.toLowerCase()).join(', ') : 'none'}`,
+    `difficulty: ${DIFFICULTIES[config.difficulty].label.toLowerCase()} ×${DIFFICULTIES[config.difficulty].scoreMultiplier}`,
+  ].join(', ') + ` (rules code ${encodeConfig(config)})`;
+
+export const formatBenchmarkMarkdown = ({ options, agents }: BenchmarkReport): string => {
+  const header = [
+    `Benchmark: ${options.games} games per agent, seeds ${options.firstSeed}–${options.firstSeed + options.games - 1}`,
+    '',
+    `Rules: ${describeRules(options.config ?? DEFAULT_GAME_CONFIG)}`,
+    '',
+    '| Agent | Mean score | Median score | Max score | Mean ticks | Median ticks | Wall | Obstacle | Self | Poison | Starved | Won | Timeout | Games/s |',
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+  ];
+  const rows = agents.map(report =>
+    [
+      report.agent,
+      format(report.score.mean),
+      format(report.score.median),
+      format(report.score.max),
+      format(report.ticks.mean),
+      format(report.ticks.median),
+      percent(report.outcomes.wall, report.games),
+      percent(report.outcomes.obstacle, report.games),
+      percent(report.outcomes.self, report.games),
+      percent(report.outcomes.poison, report.games),
+      percent(report.outcomes.starved, report.games),
+      percent(report.outcomes.won, report.games),
+      percent(report.outcomes.timeout, report.games),
+      format(report.gamesPerSecond),
+    ].join(' | '),
+  );
+  return [...header, ...rows.map(row => `| ${row} |`)].join('\n') + '\n';
+};
@@ -0,0 +1,117 @@
+// Rule set a game is played under. It travels inside GameState, so step(),
+// bots, sensors and replays all read the board from the state they are given.
+
+import type { DifficultyId } from './difficulty';
+import type { Direction, Position } from './engine';
+import { FOOD_TABLES, findFoodTable, type FoodTable } from './food';
+import { POWER_UP_IDS, type PowerUpId } from './powerups';
+
+/** Solid walls kill; on a wrapping (toroidal) board the snake re-enters from the opposite edge. */
+export type WallBehavior = 'solid' | 'wrap';
+
+export type GameConfig = {
+  width: number;
+  height: number;
+  /** Segments the snake starts with, laid out behind the head. */
+  startLength: number;
+  /** Milliseconds per tick when played in real time. */
+  tickMs: number;
+  pointsPerFood: number;
+  walls: WallBehavior;
+  /** Static wall tiles inside the board, e.g. from a campaign level. */
+  obstacles: Position[];
+  /** Where the head starts and which way it faces; the middle of the board facing up when null. */
+  spawn: { position: Position; direction: Direction } | null;
+  /** Food only appears on these cells while any of them is free; anywhere when empty. */
+  foodSpawns: Position[];
+  /** Spawn weights for each kind of food, see food.ts. */
+  foodTable: FoodTable;
+  /** Power-ups that may spawn when food is eaten; none when empty. */
+  powerUps: PowerUpId[];
+  /** How fast the game speeds up, and the score multiplier that comes with it. */
+  difficulty: DifficultyId;
+};
+
+/** Board sides and start lengths outside these are refused, so a shared code can't build a board that freezes the tab. */
+export const BOARD_SIZE_RANGE = { min: 5, max: 60 } as const;
+export const START_LENGTH_RANGE = { min: 1, max: 10 } as const;
+
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  width: 20,
+  height: 20,
+  startLength: 1,
+  tickMs: 150,
+  pointsPerFood: 10,
+  walls: 'solid',
+  obstacles: [],
+  spawn: null,
+  foodSpawns: [],
+  foodTable: FOOD_TABLES.classic.table,
+  powerUps: [],
+  difficulty: 'normal',
+};
+
+export type GamePresetId = 'classic' | 'tiny' | 'large' | 'widescreen' | 'marathon' | 'blitz' | 'arcade';
+
+export const GAME_PRESETS: Record<GamePresetId, { label: string; description: string; config: GameConfig }> = {
+  classic: {
+    label: 'Classic',
+    description: '20×20, one segment, 150 ms ticks.',
+    config: DEFAULT_GAME_CONFIG,
+  },
+  tiny: {
+    label: 'Tiny',
+    description: 'A cramped 10×10 arena where every turn counts.',
+    config: { ...DEFAULT_GAME_CONFIG, width: 10, height: 10, tickMs: 200 },
+  },
+  large: {
+    label: 'Large',
+    description: '30×30 with a longer starting snake.',
+    config: { ...DEFAULT_GAME_CONFIG, width: 30, height: 30, startLength: 3, tickMs: 110 },
+  },
+  widescreen: {
+    label: 'Widescreen',
+    description: 'A 32×18 board, wider than it is tall.',
+    config: { ...DEFAULT_GAME_CONFIG, width: 32, height: 18, startLength: 3, tickMs: 120 },
+  },
+  marathon: {
+    label: 'Marathon',
+    description: 'Slow and long: 40×40, 5 points per food.',
+    config: { ...DEFAULT_GAME_CONFIG, width: 40, height: 40, startLength: 4, tickMs: 100, pointsPerFood: 5 },
+  },
+  blitz: {
+    label: 'Blitz',
+    description: '20×20 at double speed for double points.',
+    config: { ...DEFAULT_GAME_CONFIG, tickMs: 75, pointsPerFood: 20 },
+  },
+  arcade: {
+    label: 'Arcade',
+    description: '20×20 with special fruit, poison and every power-up in play.',
+    config: { ...DEFAULT_GAME_CONFIG, foodTable: FOOD_TABLES.mixed.table, powerUps: POWER_UP_IDS },
+  },
+};
+
+export const WALL_LABELS: Record<WallBehavior, string> = {
+  solid: 'Solid walls',
+  wrap: 'Wrap around',
+};
+
+const PRESET_KEYS = ['width', 'height', 'startLength', 'tickMs', 'pointsPerFood', 'difficulty'] as const;
+
+const samePowerUps = (a: PowerUpId[], b: PowerUpId[]) => a.length === b.length && a.every(id => b.includes(id));
+
+/**
+ * The preset whose rules `config` plays by, so scores under it are comparable.
+ * Walls and level layout are picked separately and don't affect the match.
+ */
+export const findPreset = (config: GameConfig): GamePresetId | null =>
+  (Object.keys(GAME_PRESETS) as GamePresetId[]).find(id => {
+    const preset = GAME_PRESETS[id].config;
+    return (
+      PRESET_KEYS.every(key => preset[key] === config[key]) &&
+      findFoodTable(preset.foodTable) === findFoodTable(config.foodTable) &&
+      samePowerUps(preset.powerUps, config.powerUps)
+    );
+  }) ?? null;
+
+export const cellCount = (config: GameConfig) => config.width * config.height;
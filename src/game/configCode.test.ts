@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_PRESETS } from './config';
+import { decodeConfig, encodeConfig } from './configCode';
+import { decodeLevelCode } from './customLevel';
+import { LEVELS, levelConfig } from './levels';
+
+describe('decodeConfig', () => {
+  it('round-trips every preset and campaign level', () => {
+    for (const { config } of Object.values(GAME_PRESETS)) expect(decodeConfig(encodeConfig(config))).toEqual(config);
+    for (const level of LEVELS) expect(decodeConfig(encodeConfig(levelConfig(level)))).toEqual(levelConfig(level));
+  });
+
+  it('accepts the smallest and largest boards', () => {
+    expect(decodeConfig('5-5-1-46-a-s')).toMatchObject({ width: 5, height: 5 });
+    expect(decodeConfig('1o-1o-a-46-a-s')).toMatchObject({ width: 60, height: 60, startLength: 10 });
+  });
+
+  it('refuses boards too large or too small to play', () => {
+    expect(() => decodeConfig('1s0-1s0-1-46-a-s')).toThrow(/board sides/);
+    expect(() => decodeConfig('k-1p-1-46-a-s')).toThrow(/board sides/);
+    expect(() => decodeConfig('4-k-1-46-a-s')).toThrow(/board sides/);
+  });
+
+  it('refuses start lengths above 10', () => {
+    expect(() => decodeConfig('k-k-zz-46-a-s')).toThrow(/start length/);
+    expect(() => decodeConfig('k-k-b-46-a-s')).toThrow(/start length/);
+  });
+
+  it('applies the same limits to level codes', () => {
+    expect(() => decodeLevelCode('1.2s0-2s0-1-46-a-s.Huge')).toThrow(/board sides/);
+  });
+});
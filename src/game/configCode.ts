@@ -0,0 +1,188 @@
+// Compact, URL-safe text form of a GameConfig, shared by replay codes and
+// level links: `width-height-startLength-tickMs-points-walls` with numbers in
+// base 36, followed by optional sections for the layout:
+//
+//   -<obstacles>  `r` and alternating run lengths of open and blocked cells in
+//                 row-major order, joined by `_` (older codes list cells instead)
+//   -<spawn>      spawn cell followed by a direction letter, e.g. `aaU`
+//   -<food>       fixed food cells joined by `_`
+//   -<table>      food type letter and spawn weight per entry, joined by `_`;
+//                 codes without it predate food types and only spawn bananas
+//   -<power-ups>  one letter per power-up that may spawn
+//   -<difficulty> difficulty letter; left out for normal, which is also what
+//                 older codes played at
+//
+// Trailing empty sections are left out, so `k-k-1-46-a-s` is the classic board
+// with bananas only and no power-ups.
+
+import { BOARD_SIZE_RANGE, START_LENGTH_RANGE, type GameConfig, type WallBehavior } from './config';
+import type { DifficultyId } from './difficulty';
+import { samePosition, type Direction, type Position } from './engine';
+import { FOOD_TABLES, FOOD_TYPE_IDS, findFoodTable, type FoodTable, type FoodTypeId } from './food';
+import type { PowerUpId } from './powerups';
+
+export const DIRECTION_CODES: Record<string, Direction> = {
+  U: { x: 0, y: -1 },
+  D: { x: 0, y: 1 },
+  L: { x: -1, y: 0 },
+  R: { x: 1, y: 0 },
+};
+
+export const directionCode = (direction: Direction) =>
+  Object.keys(DIRECTION_CODES).find(code => samePosition(DIRECTION_CODES[code], direction));
+
+const WALL_CODES: Record<string, WallBehavior> = {
+  s: 'solid',
+  w: 'wrap',
+};
+
+const wallCode = (walls: WallBehavior) => Object.keys(WALL_CODES).find(code => WALL_CODES[code] === walls);
+
+const FOOD_CODES: Record<string, FoodTypeId> = {
+  b: 'banana',
+  g: 'golden',
+  s: 'shrink',
+  f: 'speed',
+  p: 'poison',
+};
+
+const foodCode = (type: FoodTypeId) => Object.keys(FOOD_CODES).find(code => FOOD_CODES[code] === type);
+
+const encodeFoodTable = (table: FoodTable) =>
+  findFoodTable(table) === 'classic'
+    ? ''
+    : FOOD_TYPE_IDS.filter(type => (table[type] ?? 0) > 0)
+        .map(type => foodCode(type) + (table[type] ?? 0).toString(36))
+        .join('_');
+
+const POWER_UP_CODES: Record<string, PowerUpId> = {
+  g: 'ghost',
+  m: 'magnet',
+  s: 'slowmo',
+  h: 'shield',
+};
+
+const powerUpCode = (id: PowerUpId) => Object.keys(POWER_UP_CODES).find(code => POWER_UP_CODES[code] === id);
+
+const DIFFICULTY_CODES: Record<string, DifficultyId> = {
+  e: 'easy',
+  n: 'normal',
+  h: 'hard',
+  i: 'insane',
+};
+
+const difficultyCode = (id: DifficultyId) =>
+  id === 'normal' ? '' : Object.keys(DIFFICULTY_CODES).find(code => DIFFICULTY_CODES[code] === id);
+
+const encodeCells = (config: GameConfig, cells: Position[]) =>
+  cells.map(({ x, y }) => (y * config.width + x).toString(36)).join('_');
+
+const encodeObstacles = (config: GameConfig) => {
+  const blocked = new Set(config.obstacles.map(({ x, y }) => y * config.width + x));
+  const runs: number[] = [];
+  let run = 0;
+  let current = false;
+  for (let cell = 0; cell < config.width * config.height; cell++) {
+    if (blocked.has(cell) !== current) {
+      runs.push(run);
+      run = 0;
+      current = !current;
+    }
+    run++;
+  }
+  // The final open run is implied by the board size.
+  if (current) runs.push(run);
+  return 'r' + runs.map(value => value.toString(36)).join('_');
+};
+
+export const encodeConfig = (config: GameConfig): string => {
+  const sections = [config.width, config.height, config.startLength, config.tickMs, config.pointsPerFood]
+    .map(value => value.toString(36))
+    .concat(
+      wallCode(config.walls),
+      config.obstacles.length > 0 ? encodeObstacles(config) : '',
+      config.spawn ? (config.spawn.position.y * config.width + config.spawn.position.x).toString(36) + directionCode(config.spawn.direction) : '',
+      encodeCells(config, config.foodSpawns),
+      encodeFoodTable(config.foodTable),
+      config.powerUps.map(powerUpCode).join(''),
+      difficultyCode(config.difficulty),
+    );
+  while (sections[sections.length - 1] === '') sections.pop();
+  return sections.join('-');
+};
+
+const parseNumbers = (section: string) => (section ? section.split('_').map(value => parseInt(value, 36)) : []);
+
+export const decodeConfig = (code: string): GameConfig => {
+  const sections = code.split('-');
+  const numbers = sections.slice(0, 5).map(value => parseInt(value, 36));
+  const walls = WALL_CODES[sections[5]];
+  if (sections.length < 6 || sections.length > 12 || numbers.some(value => Number.isNaN(value) || value <= 0) || !walls) {
+    throw new Error('Malformed rules: expected width, height, start length, tick, points and walls');
+  }
+  const [width, height, startLength, tickMs, pointsPerFood] = numbers;
+  if ([width, height].some(side => side < BOARD_SIZE_RANGE.min || side > BOARD_SIZE_RANGE.max)) {
+    throw new Error(`Malformed rules: board sides must be ${BOARD_SIZE_RANGE.min} to ${BOARD_SIZE_RANGE.max} cells`);
+  }
+  if (startLength < START_LENGTH_RANGE.min || startLength > START_LENGTH_RANGE.max) {
+    throw new Error(`Malformed rules: start length must be ${START_LENGTH_RANGE.min} to ${START_LENGTH_RANGE.max}`);
+  }
+  const cellCount = width * height;
+  const toCells = (indices: number[]) => {
+    if (indices.some(index => Number.isNaN(index) || index < 0 || index >= cellCount)) {
+      throw new Error('Malformed rules: cell outside the board');
+    }
+    return indices.map(index => ({ x: index % width, y: Math.floor(index / width) }));
+  };
+
+  const [obstacleSection = '', spawnSection = '', foodSection = '', tableSection = '', powerUpSection = '', difficultySection = 'n'] =
+    sections.slice(6);
+  let obstacleCells: number[] = [];
+  if (obstacleSection.startsWith('r')) {
+    let cell = 0;
+    parseNumbers(obstacleSection.slice(1)).forEach((run, i) => {
+      if (i % 2 === 1) obstacleCells.push(...Array.from({ length: run }, (_, offset) => cell + offset));
+      cell += run;
+    });
+  } else {
+    obstacleCells = parseNumbers(obstacleSection);
+  }
+
+  let spawn: GameConfig['spawn'] = null;
+  if (spawnSection) {
+    const direction = DIRECTION_CODES[spawnSection.slice(-1)];
+    if (!direction) throw new Error('Malformed rules: bad spawn direction');
+    spawn = { position: toCells([parseInt(spawnSection.slice(0, -1), 36)])[0], direction };
+  }
+
+  let foodTable: FoodTable = FOOD_TABLES.classic.table;
+  if (tableSection) {
+    foodTable = {};
+    for (const entry of tableSection.split('_')) {
+      const type = FOOD_CODES[entry[0]];
+      const weight = parseInt(entry.slice(1), 36);
+      if (!type || Number.isNaN(weight) || weight <= 0) throw new Error('Malformed rules: bad food table');
+      foodTable[type] = weight;
+    }
+  }
+
+  const powerUps = [...powerUpSection].map(code => POWER_UP_CODES[code]);
+  if (powerUps.some(id => !id)) throw new Error('Malformed rules: unknown power-up');
+  const difficulty = DIFFICULTY_CODES[difficultySection || 'n'];
+  if (!difficulty) throw new Error('Malformed rules: unknown difficulty');
+
+  return {
+    width,
+    height,
+    startLength,
+    tickMs,
+    pointsPerFood,
+    walls,
+    obstacles: toCells(obstacleCells),
+    spawn,
+    foodSpawns: toCells(parseNumbers(foodSection)),
+    foodTable,
+    powerUps,
+    difficulty,
+  };
+};
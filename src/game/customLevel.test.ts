@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GAME_CONFIG } from './config';
+import { MAX_LEVEL_CODE_LENGTH, decodeLevelCode, encodeLevelCode, levelCodeQuery } from './customLevel';
+
+describe('levelCodeQuery', () => {
+  it('carries names with % and + through a link unchanged', () => {
+    const level = { name: '100% walls + 1.5 mushrooms', config: DEFAULT_GAME_CONFIG };
+    const code = new URLSearchParams(levelCodeQuery(encodeLevelCode(level))).get('level');
+    expect(code).toBe(encodeLevelCode(level));
+    expect(decodeLevelCode(code ?? '')).toEqual(level);
+  });
+});
+
+describe('MAX_LEVEL_CODE_LENGTH', () => {
+  it('fits the most detailed level the editor can build', () => {
+    const cells = Array.from({ length: 60 * 60 }, (_, i) => ({ x: i % 60, y: Math.floor(i / 60) }));
+    const config = {
+      ...DEFAULT_GAME_CONFIG,
+      width: 60,
+      height: 60,
+      obstacles: cells.filter((_, i) => i % 2 === 1),
+      foodSpawns: cells.filter((_, i) => i % 2 === 0),
+    };
+    expect(encodeLevelCode({ name: '€'.repeat(80), config }).length).toBeLessThanOrEqual(MAX_LEVEL_CODE_LENGTH);
+  });
+});
@@ -0,0 +1,52 @@
+// Levels built in the editor. A level is just a name and a GameConfig, shared
+// as `1.<config>.<name>` with the config in the format from configCode.ts and
+// the name URI-encoded, so the whole code can sit in a link.
+
+import { cellCount, type GameConfig } from './config';
+import { decodeConfig, encodeConfig } from './configCode';
+import { isObstacle, isOutOfBounds, samePosition } from './engine';
+
+export const LEVEL_CODE_VERSION = 1;
+
+/**
+ * Longest code the levels table stores, and the most a score's rules can take.
+ * A 60×60 board alternating walls and food under an 80-character name stays below it.
+ */
+export const MAX_LEVEL_CODE_LENGTH = 16000;
+
+export type CustomLevel = {
+  name: string;
+  config: GameConfig;
+};
+
+export const encodeLevelCode = (level: CustomLevel): string =>
+  [LEVEL_CODE_VERSION, encodeConfig(level.config), encodeURIComponent(level.name)].join('.');
+
+/** `?level=` query for a level code, escaped so `searchParams.get('level')` returns the code intact. */
+export const levelCodeQuery = (code: string) => `?${new URLSearchParams({ level: code })}`;
+
+export const decodeLevelCode = (code: string): CustomLevel => {
+  const [version, config, ...name] = code.split('.');
+  if (Number(version) !== LEVEL_CODE_VERSION) throw new Error(`Unsupported level code version "${version}"`);
+  if (config === undefined) throw new Error('Malformed level code: missing rules');
+  return { name: decodeURIComponent(name.join('.')), config: decodeConfig(config) };
+};
+
+/** Problems that would make a level unplayable, as messages for the editor. */
+export const findLevelProblems = (config: GameConfig): string[] => {
+  const problems: string[] = [];
+  const spawn = config.spawn?.position;
+  if (spawn && (isOutOfBounds(config, spawn) || isObstacle(config, spawn))) {
+    problems.push('The spawn point is on a wall.');
+  }
+  if (config.foodSpawns.some(cell => isObstacle(config, cell))) {
+    problems.push('A food spawn is on a wall.');
+  }
+  if (spawn && config.foodSpawns.length > 0 && config.foodSpawns.every(cell => samePosition(cell, spawn))) {
+    problems.push('The only food spawn is under the snake.');
+  }
+  if (config.obstacles.length >= cellCount(config) - 1) {
+    problems.push('There is no room left to play.');
+  }
+  return problems;
+};
@@ -0,0 +1,69 @@
+// Difficulty presets: how the tick shortens as the snake eats, and how much
+// each food is worth in return. Scores are only comparable within a preset.
+
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'insane';
+
+/** Tick lengths are shares of the config's tickMs, so the curves suit every board preset. */
+export type DifficultyCurve =
+  /** Loses `perFood` with every food. */
+  | { kind: 'linear'; perFood: number; floor: number }
+  /** Loses `step` after every `every` foods. */
+  | { kind: 'stepped'; every: number; step: number; floor: number }
+  /** Closes the gap to the floor by `1 - decay` with every food. */
+  | { kind: 'exponential'; decay: number; floor: number };
+
+export type Difficulty = {
+  label: string;
+  description: string;
+  curve: DifficultyCurve;
+  /** Foods per speed level shown in the HUD. */
+  foodsPerLevel: number;
+  scoreMultiplier: number;
+};
+
+export const DIFFICULTIES: Record<DifficultyId, Difficulty> = {
+  easy: {
+    label: 'Easy',
+    description: 'Speeds up gently and never gets frantic. Half points.',
+    curve: { kind: 'linear', perFood: 0.005, floor: 0.75 },
+    foodsPerLevel: 10,
+    scoreMultiplier: 0.5,
+  },
+  normal: {
+    label: 'Normal',
+    description: 'A little faster every 5 foods.',
+    curve: { kind: 'stepped', every: 5, step: 0.08, floor: 0.5 },
+    foodsPerLevel: 5,
+    scoreMultiplier: 1,
+  },
+  hard: {
+    label: 'Hard',
+    description: 'Speeds up with every food. One and a half times the points.',
+    curve: { kind: 'exponential', decay: 0.97, floor: 0.4 },
+    foodsPerLevel: 5,
+    scoreMultiplier: 1.5,
+  },
+  insane: {
+    label: 'Insane',
+    description: 'Races towards a quarter of the normal tick. Triple points.',
+    curve: { kind: 'exponential', decay: 0.92, floor: 0.25 },
+    foodsPerLevel: 3,
+    scoreMultiplier: 3,
+  },
+};
+
+/** Share of the base tick left after `foods` foods. */
+export const curveShare = (curve: DifficultyCurve, foods: number): number => {
+  switch (curve.kind) {
+    case 'linear':
+      return Math.max(1 - curve.perFood * foods, curve.floor);
+    case 'stepped':
+      return Math.max(1 - curve.step * Math.floor(foods / curve.every), curve.floor);
+    case 'exponential':
+      return curve.floor + (1 - curve.floor) * curve.decay ** foods;
+  }
+};
+
+/** Speed level, starting at 1. */
+export const speedLevel = (difficulty: DifficultyId, foods: number) =>
+  Math.floor(foods / DIFFICULTIES[difficulty].foodsPerLevel) + 1;
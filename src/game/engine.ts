@@ -0,0 +1,347 @@
+// Pure snake rules. Nothing in here may touch React, the DOM or timers so the
+// same step function can drive the UI, bots, replays and headless runners.
+
+import { DEFAULT_GAME_CONFIG, type GameConfig } from './config';
+import { DIFFICULTIES, curveShare, speedLevel } from './difficulty';
+import { FOOD_TYPES, SPEED_BOOST_FACTOR, pickFoodType, type FoodTypeId } from './food';
+import { POWER_UPS, POWER_UP_SPAWN_CHANCE, POWER_UP_TTL, SLOW_MO_FACTOR, type PowerUpId } from './powerups';
+import { createSeed, nextInt, nextRandom, type RngState } from './rng';
+
+/**
+ * Bumped whenever a rule change would make old replays or trained brains behave differently.
+ * v2: food types, power-ups and difficulty curves.
+ */
+export const ENGINE_VERSION = 2;
+
+export type Position = { x: number; y: number };
+export type Direction = Position;
+
+export type GameStatus = 'playing' | 'gameOver' | 'won';
+export type DeathCause = 'wall' | 'obstacle' | 'self' | 'poison';
+
+export type GameEvent =
+  | { type: 'eat'; position: Position; food: FoodTypeId }
+  | { type: 'expire'; position: Position; food: FoodTypeId }
+  | { type: 'powerUp'; position: Position; powerUp: PowerUpId }
+  | { type: 'shield'; position: Position }
+  | { type: 'levelUp'; level: number }
+  | { type: 'death'; cause: DeathCause }
+  | { type: 'won' };
+
+export type GameState = {
+  config: GameConfig;
+  snake: Position[];
+  /** `null` only once the snake fills the whole board. */
+  food: Position | null;
+  foodType: FoodTypeId;
+  /** Tick on which uneaten food disappears, for types with a time limit. */
+  foodExpiresAt: number | null;
+  /** Uncollected power-up and the tick it vanishes on. */
+  powerUp: { position: Position; type: PowerUpId; expiresAt: number } | null;
+  /** Ticks left on each active power-up effect. */
+  effects: Partial<Record<PowerUpId, number>>;
+  /** Ticks of speed boost left. */
+  boostTicks: number;
+  /** Food eaten so far by type, poison included. */
+  eaten: Partial<Record<FoodTypeId, number>>;
+  direction: Direction;
+  score: number;
+  tick: number;
+  status: GameStatus;
+  deathCause: DeathCause | null;
+  /** Seed the game was started from; identical seed and inputs replay identically. */
+  seed: number;
+  rng: RngState;
+  /** Events produced by the most recent step, for sounds and bookkeeping. */
+  events: GameEvent[];
+};
+
+export type StepInput = {
+  direction?: Direction | null;
+};
+
+export const DIRECTIONS = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+} as const satisfies Record<string, Direction>;
+
+export const samePosition = (a: Position, b: Position) => a.x === b.x && a.y === b.y;
+
+// A turn is only accepted when it is perpendicular to the current heading,
+// which rules out reversing into the neck and no-op repeats alike.
+export const canTurn = (current: Direction, next: Direction) =>
+  (current.x === 0 && next.x !== 0 && next.y === 0) ||
+  (current.y === 0 && next.y !== 0 && next.x === 0);
+
+export const isOutOfBounds = (config: GameConfig, position: Position) =>
+  position.x < 0 || position.x >= config.width || position.y < 0 || position.y >= config.height;
+
+export const isObstacle = (config: GameConfig, position: Position) =>
+  config.obstacles.some(obstacle => samePosition(obstacle, position));
+
+/** The cell one move away. On a wrapping board it re-enters from the opposite edge. */
+export const advance = (config: GameConfig, position: Position, direction: Direction): Position => {
+  const x = position.x + direction.x;
+  const y = position.y + direction.y;
+  if (config.walls !== 'wrap') return { x, y };
+  return { x: (x + config.width) % config.width, y: (y + config.height) % config.height };
+};
+
+/** Shortest offset from `from` to `to`, crossing an edge when the board wraps and that is closer. */
+export const offsetBetween = (config: GameConfig, from: Position, to: Position): Position => {
+  let x = to.x - from.x;
+  let y = to.y - from.y;
+  if (config.walls === 'wrap') {
+    if (Math.abs(x) * 2 > config.width) x -= Math.sign(x) * config.width;
+    if (Math.abs(y) * 2 > config.height) y -= Math.sign(y) * config.height;
+  }
+  return { x, y };
+};
+
+export const generateFood = (
+  config: GameConfig,
+  snakeBody: Position[],
+  rng: RngState,
+): { food: Position | null; rng: RngState } => {
+  const occupied = new Set([...snakeBody, ...config.obstacles].map(cell => cell.y * config.width + cell.x));
+  const isFree = (cell: Position) => !occupied.has(cell.y * config.width + cell.x);
+  const freeCells = config.foodSpawns.filter(isFree);
+  if (freeCells.length === 0) {
+    for (let y = 0; y < config.height; y++) {
+      for (let x = 0; x < config.width; x++) {
+        if (isFree({ x, y })) freeCells.push({ x, y });
+      }
+    }
+  }
+  if (freeCells.length === 0) return { food: null, rng };
+  const [index, next] = nextInt(rng, freeCells.length);
+  return { food: freeCells[index], rng: next };
+};
+
+type FoodSpawn = Pick<GameState, 'food' | 'foodType' | 'foodExpiresAt' | 'rng'>;
+
+// Where first, then what, so a single-type table leaves the RNG sequence as it was before food types.
+const spawnFood = (config: GameConfig, snakeBody: Position[], rng: RngState, tick: number): FoodSpawn => {
+  const placed = generateFood(config, snakeBody, rng);
+  return withFoodType(config, placed.food, placed.rng, tick);
+};
+
+const withFoodType = (config: GameConfig, food: Position | null, rng: RngState, tick: number): FoodSpawn => {
+  const [foodType, next] = pickFoodType(config.foodTable, rng);
+  const { ttl } = FOOD_TYPES[foodType];
+  return { food, foodType, foodExpiresAt: ttl === null ? null : tick + ttl, rng: next };
+};
+
+const spawnPowerUp = (
+  config: GameConfig,
+  blocked: Position[],
+  rng: RngState,
+  tick: number,
+): Pick<GameState, 'powerUp' | 'rng'> => {
+  const [roll, afterRoll] = nextRandom(rng);
+  if (roll >= POWER_UP_SPAWN_CHANCE) return { powerUp: null, rng: afterRoll };
+  const [index, afterType] = nextInt(afterRoll, config.powerUps.length);
+  // Power-ups ignore the food spawn points and may land on any free cell.
+  const placed = generateFood({ ...config, foodSpawns: [] }, blocked, afterType);
+  return {
+    powerUp: placed.food && { position: placed.food, type: config.powerUps[index], expiresAt: tick + POWER_UP_TTL },
+    rng: placed.rng,
+  };
+};
+
+const tickEffects = (effects: GameState['effects']): GameState['effects'] =>
+  Object.fromEntries(
+    Object.entries(effects)
+      .filter(([, ticks]) => ticks > 1)
+      .map(([id, ticks]) => [id, ticks - 1]),
+  );
+
+const withoutEffect = (effects: GameState['effects'], id: PowerUpId): GameState['effects'] =>
+  Object.fromEntries(Object.entries(effects).filter(([other]) => other !== id));
+
+// One cell towards the head along the longer axis of the gap, or the shorter
+// one when that is blocked. Food never moves onto the snake itself.
+const pullFood = (config: GameConfig, food: Position, head: Position, blocked: Position[]): Position => {
+  const { x, y } = offsetBetween(config, food, head);
+  const moves = [
+    { x: Math.sign(x), y: 0 },
+    { x: 0, y: Math.sign(y) },
+  ].filter(move => move.x !== 0 || move.y !== 0);
+  if (Math.abs(y) > Math.abs(x)) moves.reverse();
+  for (const move of moves) {
+    const next = advance(config, food, move);
+    if (!isOutOfBounds(config, next) && !isObstacle(config, next) && !blocked.some(cell => samePosition(cell, next))) {
+      return next;
+    }
+  }
+  return food;
+};
+
+/** The food worth steering for: null when there is none or it would kill. */
+export const edibleFood = (state: GameState): Position | null =>
+  FOOD_TYPES[state.foodType].lethal ? null : state.food;
+
+/** Food eaten so far, poison aside. */
+export const foodsEaten = (state: Pick<GameState, 'eaten'>) =>
+  Object.entries(state.eaten).reduce((sum, [type, count]) => (FOOD_TYPES[type as FoodTypeId].lethal ? sum : sum + count), 0);
+
+/** Speed level on the difficulty curve, starting at 1. */
+export const currentLevel = (state: GameState) => speedLevel(state.config.difficulty, foodsEaten(state));
+
+/** Milliseconds the current tick should last when played in real time: the difficulty curve, then any effects. */
+export const currentTickMs = (state: GameState) =>
+  Math.round(
+    state.config.tickMs *
+      curveShare(DIFFICULTIES[state.config.difficulty].curve, foodsEaten(state)) *
+      (state.boostTicks > 0 ? SPEED_BOOST_FACTOR : 1) *
+      (state.effects.slowmo ? SLOW_MO_FACTOR : 1),
+  );
+
+export const INITIAL_DIRECTION: Direction = DIRECTIONS.up;
+
+/**
+ * Head on the spawn point (the middle of the board by default), body trailing
+ * straight behind it. The body is cut short where it would leave the board or
+ * run into an obstacle.
+ */
+export const initialSnake = (config: GameConfig): Position[] => {
+  const head = config.spawn?.position ?? { x: Math.floor(config.width / 2), y: Math.floor(config.height / 2) };
+  const direction = config.spawn?.direction ?? INITIAL_DIRECTION;
+  const snake = [head];
+  for (let i = 1; i < config.startLength; i++) {
+    const segment = { x: head.x - direction.x * i, y: head.y - direction.y * i };
+    if (isOutOfBounds(config, segment) || isObstacle(config, segment)) break;
+    snake.push(segment);
+  }
+  return snake;
+};
+
+export const createInitialState = (seed: number = createSeed(), config: GameConfig = DEFAULT_GAME_CONFIG): GameState => {
+  const snake = initialSnake(config);
+  // Without food spawns the first food always sits in the same spot, three
+  // quarters across and down; only if the snake or an obstacle covers it does
+  // the seeded RNG pick one instead.
+  const fixed = { x: Math.floor((config.width * 3) / 4), y: Math.floor((config.height * 3) / 4) };
+  const placed =
+    config.foodSpawns.length > 0 || snake.some(segment => samePosition(segment, fixed)) || isObstacle(config, fixed)
+      ? generateFood(config, snake, seed)
+      : { food: fixed, rng: seed };
+  const { food, foodType, foodExpiresAt, rng } = withFoodType(config, placed.food, placed.rng, 0);
+  return {
+    config,
+    snake,
+    food,
+    foodType,
+    foodExpiresAt,
+    powerUp: null,
+    effects: {},
+    boostTicks: 0,
+    eaten: {},
+    direction: config.spawn?.direction ?? INITIAL_DIRECTION,
+    score: 0,
+    tick: 0,
+    status: food ? 'playing' : 'won',
+    deathCause: null,
+    seed,
+    rng,
+    events: [],
+  };
+};
+
+export const step = (state: GameState, input: StepInput = {}): GameState => {
+  if (state.status !== 'playing') return state;
+
+  const { config } = state;
+  const direction =
+    input.direction && canTurn(state.direction, input.direction) ? input.direction : state.direction;
+  const head = advance(config, state.snake[0], direction);
+  const tick = state.tick + 1;
+  let boostTicks = Math.max(state.boostTicks - 1, 0);
+  let effects = tickEffects(state.effects);
+
+  // Check wall and obstacle collision
+  const hit = isOutOfBounds(config, head) ? 'wall' : isObstacle(config, head) ? 'obstacle' : null;
+  if (hit && state.effects.shield) {
+    // The shield takes the hit instead: the snake holds still for a tick so it can turn away.
+    return {
+      ...state,
+      direction,
+      tick,
+      boostTicks,
+      effects: withoutEffect(effects, 'shield'),
+      events: [{ type: 'shield', position: state.snake[0] }],
+    };
+  }
+  if (hit) {
+    return { ...state, direction, tick, status: 'gameOver', deathCause: hit, events: [{ type: 'death', cause: hit }] };
+  }
+
+  // Check self collision
+  if (!state.effects.ghost && state.snake.some(segment => samePosition(segment, head))) {
+    return { ...state, direction, tick, status: 'gameOver', deathCause: 'self', events: [{ type: 'death', cause: 'self' }] };
+  }
+
+  const snake = [head, ...state.snake];
+  const events: GameEvent[] = [];
+  let { food, foodType, foodExpiresAt, rng, powerUp, score, eaten } = state;
+
+  // Check power-up pickup
+  if (powerUp && samePosition(head, powerUp.position)) {
+    effects = { ...effects, [powerUp.type]: POWER_UPS[powerUp.type].duration };
+    events.push({ type: 'powerUp', position: head, powerUp: powerUp.type });
+    powerUp = null;
+  } else if (powerUp && tick >= powerUp.expiresAt) {
+    powerUp = null;
+  }
+  const blockers = () => (powerUp ? [...snake, powerUp.position] : snake);
+
+  // Check food collision
+  if (food && samePosition(head, food)) {
+    const type = FOOD_TYPES[foodType];
+    eaten = { ...eaten, [foodType]: (eaten[foodType] ?? 0) + 1 };
+    if (type.lethal) {
+      return { ...state, direction, tick, eaten, status: 'gameOver', deathCause: 'poison', events: [{ type: 'death', cause: 'poison' }] };
+    }
+
+    // Growing keeps the old tail; shrinking drops it and then some, down to the head alone.
+    if (type.shrink > 0) snake.length = Math.max(snake.length - 1 - type.shrink, 1);
+    score += Math.round(config.pointsPerFood * type.points * DIFFICULTIES[config.difficulty].scoreMultiplier);
+    if (type.boostTicks > 0) boostTicks = type.boostTicks;
+    events.push({ type: 'eat', position: head, food: foodType });
+    const level = speedLevel(config.difficulty, foodsEaten({ eaten }));
+    if (level > currentLevel(state)) events.push({ type: 'levelUp', level });
+    ({ food, foodType, foodExpiresAt, rng } = spawnFood(config, blockers(), rng, tick));
+    if (!food) events.push({ type: 'won' });
+    else if (!powerUp && config.powerUps.length > 0) ({ powerUp, rng } = spawnPowerUp(config, [...snake, food], rng, tick));
+  } else {
+    snake.pop();
+
+    // Food with a time limit makes way for a fresh draw once it runs out.
+    if (food && foodExpiresAt !== null && tick >= foodExpiresAt) {
+      events.push({ type: 'expire', position: food, food: foodType });
+      ({ food, foodType, foodExpiresAt, rng } = spawnFood(config, blockers(), rng, tick));
+    } else if (food && state.effects.magnet && !FOOD_TYPES[foodType].lethal) {
+      food = pullFood(config, food, head, blockers());
+    }
+  }
+
+  return {
+    ...state,
+    snake,
+    food,
+    foodType,
+    foodExpiresAt,
+    powerUp,
+    effects,
+    boostTicks,
+    eaten,
+    score,
+    rng,
+    direction,
+    tick,
+    status: food ? 'playing' : 'won',
+    events,
+  };
+};
@@ -0,0 +1,127 @@
+// Food types and the weighted tables new food is drawn from. The config only
+// stores weights, so levels and editor links can mix their own tables.
+
+import { nextInt, type RngState } from './rng';
+
+export type FoodTypeId = 'banana' | 'golden' | 'shrink' | 'speed' | 'poison';
+
+export type FoodType = {
+  label: string;
+  emoji: string;
+  description: string;
+  /** Multiple of the config's points per food. */
+  points: number;
+  /** Ticks before uneaten food disappears and something new spawns; null keeps it until eaten. */
+  ttl: number | null;
+  /** Tail segments lost on top of not growing; 0 means the snake grows by one as usual. */
+  shrink: number;
+  /** Ticks of faster movement after eating, see SPEED_BOOST_FACTOR. */
+  boostTicks: number;
+  /** Eating it ends the game. */
+  lethal: boolean;
+};
+
+export const FOOD_TYPES: Record<FoodTypeId, FoodType> = {
+  banana: {
+    label: 'Banana',
+    emoji: '🍌',
+    description: 'Plain food: grow by one.',
+    points: 1,
+    ttl: null,
+    shrink: 0,
+    boostTicks: 0,
+    lethal: false,
+  },
+  golden: {
+    label: 'Golden apple',
+    emoji: '🍏',
+    description: 'Five times the points, but gone after 40 ticks.',
+    points: 5,
+    ttl: 40,
+    shrink: 0,
+    boostTicks: 0,
+    lethal: false,
+  },
+  shrink: {
+    label: 'Shrinking berry',
+    emoji: '🫐',
+    description: 'Sheds three tail segments instead of growing.',
+    points: 1,
+    ttl: null,
+    shrink: 3,
+    boostTicks: 0,
+    lethal: false,
+  },
+  speed: {
+    label: 'Chili',
+    emoji: '🌶️',
+    description: 'Double points and a burst of speed for 50 ticks.',
+    points: 2,
+    ttl: null,
+    shrink: 0,
+    boostTicks: 50,
+    lethal: false,
+  },
+  poison: {
+    label: 'Poison mushroom',
+    emoji: '🍄',
+    description: 'Deadly. Wait 30 ticks and it rots away.',
+    points: 0,
+    ttl: 30,
+    shrink: 0,
+    boostTicks: 0,
+    lethal: true,
+  },
+};
+
+/** Relative spawn weights; types that are missing or weigh 0 never spawn. */
+export type FoodTable = Partial<Record<FoodTypeId, number>>;
+
+export type FoodTableId = 'classic' | 'mixed' | 'risky';
+
+export const FOOD_TABLES: Record<FoodTableId, { label: string; description: string; table: FoodTable }> = {
+  classic: {
+    label: 'Bananas only',
+    description: 'The original game: every food is a plain banana.',
+    table: { banana: 1 },
+  },
+  mixed: {
+    label: 'Mixed',
+    description: 'Mostly bananas with the occasional special fruit.',
+    table: { banana: 70, golden: 10, shrink: 8, speed: 7, poison: 5 },
+  },
+  risky: {
+    label: 'Risky',
+    description: 'Lots of golden apples, and lots of poison.',
+    table: { banana: 40, golden: 25, speed: 10, poison: 25 },
+  },
+};
+
+/** Movement speeds up to this share of the tick while a speed boost lasts. */
+export const SPEED_BOOST_FACTOR = 0.6;
+
+export const FOOD_TYPE_IDS = Object.keys(FOOD_TYPES) as FoodTypeId[];
+
+export const findFoodTable = (table: FoodTable): FoodTableId | null =>
+  (Object.keys(FOOD_TABLES) as FoodTableId[]).find(id =>
+    FOOD_TYPE_IDS.every(type => (FOOD_TABLES[id].table[type] ?? 0) === (table[type] ?? 0)),
+  ) ?? null;
+
+/**
+ * Draws a type by weight. A table with a single type draws nothing from the
+ * RNG, so games under the classic table replay exactly as before food types.
+ */
+export const pickFoodType = (table: FoodTable, rng: RngState): [type: FoodTypeId, next: RngState] => {
+  const entries = FOOD_TYPE_IDS.map(type => [type, table[type] ?? 0] as const).filter(([, weight]) => weight > 0);
+  if (entries.length === 0) return ['banana', rng];
+  if (entries.length === 1) return [entries[0][0], rng];
+
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  const [value, next] = nextInt(rng, total);
+  let roll = value;
+  for (const [type, weight] of entries) {
+    if (roll < weight) return [type, next];
+    roll -= weight;
+  }
+  return [entries[entries.length - 1][0], next];
+};
@@ -0,0 +1,62 @@
+// Plays whole games without rendering, for trainers and benchmarks.
+
+import { DEFAULT_GAME_CONFIG, cellCount, type GameConfig } from './config';
+import { createInitialState, step, type DeathCause, type GameState } from './engine';
+import type { Agent } from './agents/agent';
+
+export type GameOutcome = DeathCause | 'won' | 'starved' | 'timeout';
+
+export type GameResult = {
+  seed: number;
+  score: number;
+  foods: number;
+  ticks: number;
+  outcome: GameOutcome;
+  final: GameState;
+};
+
+export type HeadlessOptions = {
+  /** Rules to play under; the classic board by default. */
+  config?: GameConfig;
+  /** Hard cap on the length of a game. */
+  maxTicks?: number;
+  /** Ends games where the agent circles without eating for this many ticks; twice the cell count by default. */
+  starvationTicks?: number;
+};
+
+export const DEFAULT_MAX_TICKS = 50_000;
+
+export const defaultStarvationTicks = (config: GameConfig) => cellCount(config) * 2;
+
+export const playGame = (agent: Agent, seed: number, options: HeadlessOptions = {}): GameResult => {
+  const { config = DEFAULT_GAME_CONFIG, maxTicks = DEFAULT_MAX_TICKS, starvationTicks = defaultStarvationTicks(config) } = options;
+  let state = createInitialState(seed, config);
+  let lastMeal = 0;
+  let foods = 0;
+  let outcome: GameOutcome = 'timeout';
+
+  while (state.tick < maxTicks) {
+    state = step(state, { direction: agent.decide(state) });
+    if (state.events.some(event => event.type === 'eat')) {
+      foods++;
+      lastMeal = state.tick;
+    }
+    if (state.status !== 'playing') {
+      outcome = state.status === 'won' ? 'won' : state.deathCause;
+      break;
+    }
+    if (state.tick - lastMeal >= starvationTicks) {
+      outcome = 'starved';
+      break;
+    }
+  }
+
+  return {
+    seed,
+    score: state.score,
+    foods,
+    ticks: state.tick,
+    outcome,
+    final: state,
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GAME_CONFIG, type GameConfig } from './config';
+import { DIRECTIONS, createInitialState, step, type Direction, type GameState } from './engine';
+import { EMPTY_INPUT_QUEUE, INPUT_QUEUE_SIZE, dequeueTurn, enqueueTurn, type InputQueue } from './input';
+
+const { up, down, left, right } = DIRECTIONS;
+
+// A long snake heading right in open space, so a reversal would run into its own neck.
+const config: GameConfig = {
+  ...DEFAULT_GAME_CONFIG,
+  startLength: 4,
+  spawn: { position: { x: 10, y: 10 }, direction: right },
+  foodSpawns: [{ x: 0, y: 0 }],
+};
+
+const queueAll = (heading: Direction, turns: Direction[]) =>
+  turns.reduce<InputQueue>((queue, turn) => enqueueTurn(queue, heading, turn), EMPTY_INPUT_QUEUE);
+
+// Plays one queued turn per tick, like the game loop.
+const playQueue = (state: GameState, queue: InputQueue, ticks: number) => {
+  for (let i = 0; i < ticks; i++) {
+    const [turn, rest] = dequeueTurn(queue);
+    queue = rest;
+    state = step(state, { direction: turn });
+  }
+  return state;
+};
+
+describe('enqueueTurn', () => {
+  it('queues Up then Left pressed within one tick as two turns', () => {
+    const queue = queueAll(right, [up, left]);
+    expect(queue).toEqual([up, left]);
+
+    const state = playQueue(createInitialState(1, config), queue, 2);
+    expect(state.status).toBe('playing');
+    expect(state.direction).toEqual(left);
+    expect(state.snake[0]).toEqual({ x: 9, y: 9 });
+  });
+
+  it('checks each turn against the last queued one, not the heading', () => {
+    // Up then Down would reverse into the neck once Up has been played.
+    expect(queueAll(right, [up, down])).toEqual([up]);
+    // Down is fine after Up then Left, even though the snake still heads right.
+    expect(queueAll(right, [up, left, down])).toEqual([up, left, down]);
+  });
+
+  it('rejects a reversal of the heading when nothing is queued', () => {
+    expect(queueAll(right, [left])).toEqual([]);
+
+    const state = playQueue(createInitialState(1, config), queueAll(right, [left]), 1);
+    expect(state.status).toBe('playing');
+    expect(state.snake[0]).toEqual({ x: 11, y: 10 });
+  });
+
+  it('does not queue a press in the direction already taken', () => {
+    expect(queueAll(right, [right])).toEqual([]);
+    expect(queueAll(right, [up, up])).toEqual([up]);
+  });
+
+  it(`holds at most ${INPUT_QUEUE_SIZE} turns`, () => {
+    const queue = queueAll(right, [up, left, down, right, up]);
+    expect(queue).toHaveLength(INPUT_QUEUE_SIZE);
+    expect(queue).toEqual([up, left, down]);
+  });
+});
+
+describe('dequeueTurn', () => {
+  it('hands out turns in the order they were pressed', () => {
+    const [first, rest] = dequeueTurn([up, left]);
+    expect(first).toEqual(up);
+    expect(dequeueTurn(rest)).toEqual([left, []]);
+  });
+
+  it('has no turn for an empty queue', () => {
+    expect(dequeueTurn(EMPTY_INPUT_QUEUE)).toEqual([null, EMPTY_INPUT_QUEUE]);
+  });
+});
@@ -0,0 +1,24 @@
+// Turns queued by the player between ticks. step() applies one turn per
+// tick, so quick presses wait their turn instead of overwriting each other,
+// and each one is checked against the turn queued before it: Up then Left
+// from a snake heading right becomes two turns, never a reversal.
+
+import { canTurn, type Direction } from './engine';
+
+/** Turns held at most; presses beyond this are dropped rather than played late. */
+export const INPUT_QUEUE_SIZE = 3;
+
+export type InputQueue = readonly Direction[];
+
+export const EMPTY_INPUT_QUEUE: InputQueue = [];
+
+/** Queues `turn` if it is a valid turn after the last queued one, or after `heading` when the queue is empty. */
+export const enqueueTurn = (queue: InputQueue, heading: Direction, turn: Direction): InputQueue => {
+  if (queue.length >= INPUT_QUEUE_SIZE) return queue;
+  const last = queue[queue.length - 1] ?? heading;
+  return canTurn(last, turn) ? [...queue, turn] : queue;
+};
+
+/** The turn to apply this tick, if any, and what stays queued. */
+export const dequeueTurn = (queue: InputQueue): [turn: Direction | null, rest: InputQueue] =>
+  queue.length === 0 ? [null, queue] : [queue[0], queue.slice(1)];
@@ -0,0 +1,666 @@
+// The campaign: handcrafted obstacle maps, played in order. Reaching a level's
+// target score unlocks the next one.
+
+import { DEFAULT_GAME_CONFIG, type GameConfig } from './config';
+import type { Position } from './engine';
+
+export type Level = {
+  id: string;
+  name: string;
+  /** Score that unlocks the next level. */
+  targetScore: number;
+  /** One string per row; `#` is an obstacle, anything else is open floor. */
+  map: string[];
+  /** Rules that differ from the classic ones. */
+  rules?: Partial<Pick<GameConfig, 'walls' | 'tickMs' | 'startLength'>>;
+};
+
+export const parseLevelMap = (map: string[]): Pick<GameConfig, 'width' | 'height' | 'obstacles'> => {
+  const width = map[0]?.length ?? 0;
+  if (map.some(row => row.length !== width)) throw new Error('Level map rows must all be the same length');
+  const obstacles: Position[] = [];
+  map.forEach((row, y) => {
+    [...row].forEach((cell, x) => {
+      if (cell === '#') obstacles.push({ x, y });
+    });
+  });
+  return { width, height: map.length, obstacles };
+};
+
+export const levelConfig = (level: Level): GameConfig => ({
+  ...DEFAULT_GAME_CONFIG,
+  ...level.rules,
+  ...parseLevelMap(level.map),
+});
+
+export const LEVELS: Level[] = [
+  {
+    id: 'open-field',
+    name: 'Open Field',
+    targetScore: 50,
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'four-pillars',
+    name: 'Four Pillars',
+    targetScore: 80,
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....##........##....',
+      '....##........##....',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....##........##....',
+      '....##........##....',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'the-bar',
+    name: 'The Bar',
+    targetScore: 100,
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '.....##########.....',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'twin-bars',
+    name: 'Twin Bars',
+    targetScore: 100,
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '...##############...',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '...##############...',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'corners',
+    name: 'Corners',
+    targetScore: 120,
+    map: [
+      '....................',
+      '....................',
+      '..####........####..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..####........####..',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'cross',
+    name: 'Crossroads',
+    targetScore: 120,
+    map: [
+      '....................',
+      '....................',
+      '..........#.........',
+      '..........#.........',
+      '..........#.........',
+      '..........#.........',
+      '..........#.........',
+      '....................',
+      '....................',
+      '....................',
+      '..#####......#####..',
+      '....................',
+      '....................',
+      '....................',
+      '..........#.........',
+      '..........#.........',
+      '..........#.........',
+      '..........#.........',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'the-box',
+    name: 'The Box',
+    targetScore: 140,
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '...#####....#####...',
+      '...#............#...',
+      '...#............#...',
+      '...#............#...',
+      '...#............#...',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '...#............#...',
+      '...#............#...',
+      '...#............#...',
+      '...#............#...',
+      '...#####....#####...',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'checkers',
+    name: 'Checkers',
+    targetScore: 140,
+    map: [
+      '....................',
+      '....................',
+      '..#...#......#...#..',
+      '....................',
+      '....................',
+      '....................',
+      '..#...#......#...#..',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '..#...#......#...#..',
+      '....................',
+      '....................',
+      '....................',
+      '..#...#......#...#..',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'dividers',
+    name: 'Dividers',
+    targetScore: 150,
+    map: [
+      '.....#..............',
+      '.....#..............',
+      '.....#..............',
+      '.....#..............',
+      '.....#..............',
+      '.....#..............',
+      '.....#........#.....',
+      '.....#........#.....',
+      '.....#........#.....',
+      '.....#........#.....',
+      '.....#........#.....',
+      '.....#........#.....',
+      '.....#........#.....',
+      '.....#........#.....',
+      '..............#.....',
+      '..............#.....',
+      '..............#.....',
+      '..............#.....',
+      '..............#.....',
+      '..............#.....',
+    ],
+  },
+  {
+    id: 'three-rooms',
+    name: 'Three Rooms',
+    targetScore: 160,
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '###...########...###',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '########....########',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'spiral',
+    name: 'Spiral',
+    targetScore: 160,
+    map: [
+      '....................',
+      '....................',
+      '....##############..',
+      '.................#..',
+      '.................#..',
+      '....###########..#..',
+      '....#.........#..#..',
+      '....#.........#..#..',
+      '....#..#......#..#..',
+      '....#..#......#..#..',
+      '....#..#......#..#..',
+      '....#..#......#..#..',
+      '....#..#......#..#..',
+      '....#..#......#..#..',
+      '....#..########..#..',
+      '....#............#..',
+      '....#............#..',
+      '....##############..',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'zigzag',
+    name: 'Zigzag',
+    targetScore: 170,
+    map: [
+      '....................',
+      '....................',
+      '##############......',
+      '....................',
+      '....................',
+      '....................',
+      '......##############',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '##############......',
+      '....................',
+      '....................',
+      '....................',
+      '......##############',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'diamond',
+    name: 'Diamond',
+    targetScore: 180,
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '.........##.........',
+      '........#..#........',
+      '.......#....#.......',
+      '......#......#......',
+      '.....#........#.....',
+      '....................',
+      '....................',
+      '.....#........#.....',
+      '......#......#......',
+      '.......#....#.......',
+      '........#..#........',
+      '.........##.........',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'portals',
+    name: 'Portals',
+    targetScore: 180,
+    rules: { walls: 'wrap' },
+    map: [
+      '########....########',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '########....########',
+    ],
+  },
+  {
+    id: 'stripes',
+    name: 'Stripes',
+    targetScore: 200,
+    map: [
+      '.....#...........#..',
+      '.....#...........#..',
+      '.....#...........#..',
+      '.....#...........#..',
+      '.....#...........#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#..#........#..#..',
+      '..#...........#.....',
+      '..#...........#.....',
+      '..#...........#.....',
+      '..#...........#.....',
+      '..#...........#.....',
+    ],
+  },
+  {
+    id: 'islands',
+    name: 'Islands',
+    targetScore: 200,
+    map: [
+      '....................',
+      '.........##.........',
+      '.........##.........',
+      '...###........###...',
+      '...###........###...',
+      '...###........###...',
+      '....................',
+      '....................',
+      '....................',
+      '.##..............##.',
+      '.##..............##.',
+      '....................',
+      '....................',
+      '....................',
+      '...###........###...',
+      '...###........###...',
+      '...###........###...',
+      '.........##.........',
+      '.........##.........',
+      '....................',
+    ],
+  },
+  {
+    id: 'comb',
+    name: 'The Comb',
+    targetScore: 220,
+    map: [
+      '....................',
+      '....................',
+      '.##################.',
+      '..#..#..#.....#..#..',
+      '..#..#..#.....#..#..',
+      '..#..#..#.....#..#..',
+      '..#..#..#.....#..#..',
+      '..#..#..#.....#..#..',
+      '..#..#..#.....#..#..',
+      '....................',
+      '....................',
+      '....................',
+      '...#..#.....#..#....',
+      '...#..#.....#..#....',
+      '...#..#.....#..#....',
+      '...#..#.....#..#....',
+      '...#..#.....#..#....',
+      '.##################.',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'fortress',
+    name: 'Fortress',
+    targetScore: 220,
+    map: [
+      '....................',
+      '....................',
+      '..#######..#######..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#...##....##...#..',
+      '..#...##....##...#..',
+      '..#..............#..',
+      '....................',
+      '....................',
+      '..#..............#..',
+      '..#...##....##...#..',
+      '..#...##....##...#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#######..#######..',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'scatter',
+    name: 'Meteor Shower',
+    targetScore: 230,
+    rules: { tickMs: 130 },
+    map: [
+      '#.............#.....',
+      '......#.............',
+      '............#.......',
+      '....#.............#.',
+      '..........#.........',
+      '..#.............#...',
+      '....................',
+      '#.............#.....',
+      '......#.............',
+      '....................',
+      '....#.............#.',
+      '....................',
+      '..#.............#...',
+      '....................',
+      '#.............#.....',
+      '......#.............',
+      '............#.......',
+      '....#.............#.',
+      '..........#.........',
+      '..#.............#...',
+    ],
+  },
+  {
+    id: 'labyrinth',
+    name: 'Labyrinth',
+    targetScore: 240,
+    rules: { tickMs: 130 },
+    map: [
+      '....................',
+      '....................',
+      '..################..',
+      '....................',
+      '....................',
+      '..#..####..####..#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..............#..',
+      '..#..####..####..#..',
+      '....................',
+      '....................',
+      '..################..',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'tunnels',
+    name: 'Tunnels',
+    targetScore: 250,
+    rules: { walls: 'wrap', tickMs: 120 },
+    map: [
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+      '####..##############',
+      '....................',
+      '....................',
+      '....................',
+      '....#..........#....',
+      '....#..........#....',
+      '....#..........#....',
+      '....#..........#....',
+      '....................',
+      '....................',
+      '....................',
+      '##############..####',
+      '....................',
+      '....................',
+      '....................',
+      '....................',
+    ],
+  },
+  {
+    id: 'serpentine',
+    name: 'Serpentine',
+    targetScore: 260,
+    rules: { tickMs: 120 },
+    map: [
+      '...#........#.......',
+      '...#........#.......',
+      '...#........#.......',
+      '...#........#.......',
+      '...#........#.......',
+      '...#........#.......',
+      '...#...#....#...#...',
+      '...#...#....#...#...',
+      '...#...#....#...#...',
+      '...#...#....#...#...',
+      '...#...#....#...#...',
+      '...#...#....#...#...',
+      '...#...#....#...#...',
+      '...#...#....#...#...',
+      '.......#........#...',
+      '.......#........#...',
+      '.......#........#...',
+      '.......#........#...',
+      '.......#........#...',
+      '.......#........#...',
+    ],
+  },
+  {
+    id: 'gauntlet',
+    name: 'The Gauntlet',
+    targetScore: 300,
+    rules: { tickMs: 100, startLength: 3 },
+    map: [
+      '####################',
+      '#..................#',
+      '#..................#',
+      '#..###........###..#',
+      '#..###...##...###..#',
+      '#..###........###..#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#......#....#......#',
+      '#......#....#......#',
+      '#..................#',
+      '#..................#',
+      '#..................#',
+      '#..###........###..#',
+      '#..###...##...###..#',
+      '#..###........###..#',
+      '#..................#',
+      '#..................#',
+      '####################',
+    ],
+  },
+];
+
+export const findLevel = (id: string) => LEVELS.find(level => level.id === id) ?? null;
@@ -0,0 +1,122 @@
+// Versioned on-disk format for trained networks. Files carry the sensor
+// layout they were trained against, and loading refuses anything the current
+// engine would feed different inputs to. The training board is recorded too,
+// but the sensors are relative to the head, so a brain plays on any board.
+
+import { z } from 'zod';
+import { DEFAULT_GAME_CONFIG, type GameConfig } from '../config';
+import { ENGINE_VERSION } from '../engine';
+import { OUTPUT_LABELS } from './brains';
+import { topologyOf, type Network } from './network';
+import { SENSOR_COUNT, SENSOR_LAYOUT } from './sensors';
+
+export const BRAIN_FILE_FORMAT = 'neural-snake-brain';
+export const BRAIN_FILE_VERSION = 2;
+
+const layerSchema = z.object({
+  weights: z.array(z.array(z.number())),
+  biases: z.array(z.number()),
+  activation: z.enum(['relu', 'tanh', 'sigmoid', 'linear']),
+});
+
+const brainFileSchema = z.object({
+  format: z.literal(BRAIN_FILE_FORMAT),
+  version: z.number().int().positive(),
+  engineVersion: z.number().int().positive(),
+  topology: z.array(z.number().int().positive()).min(2),
+  layers: z.array(layerSchema).min(1),
+  sensors: z.object({
+    layout: z.string(),
+    inputs: z.number().int().positive(),
+    /** Version 2: the board the brain was trained on. */
+    board: z.object({ width: z.number().int().positive(), height: z.number().int().positive() }).optional(),
+    /** Version 1: side of the square training board. */
+    gridSize: z.number().int().positive().optional(),
+  }),
+  outputs: z.array(z.string()),
+  training: z.object({
+    method: z.string(),
+    generation: z.number().int().nonnegative(),
+    fitness: z.number().nullable(),
+    score: z.number().nullable(),
+    savedAt: z.string(),
+  }),
+});
+
+export type BrainFile = z.infer<typeof brainFileSchema>;
+export type BrainTraining = Omit<BrainFile['training'], 'savedAt'>;
+
+export const createBrainFile = (
+  network: Network,
+  training: BrainTraining,
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+): BrainFile => ({
+  format: BRAIN_FILE_FORMAT,
+  version: BRAIN_FILE_VERSION,
+  engineVersion: ENGINE_VERSION,
+  topology: topologyOf(network),
+  layers: network.layers,
+  sensors: { layout: SENSOR_LAYOUT, inputs: SENSOR_COUNT, board: { width: config.width, height: config.height } },
+  outputs: [...OUTPUT_LABELS],
+  training: { ...training, savedAt: new Date().toISOString() },
+});
+
+export const brainFileName = (file: BrainFile) =>
+  `snake-brain-gen${file.training.generation}-${file.topology.join('x')}.json`;
+
+/** Parses and validates a brain file, throwing an Error that explains what is wrong. */
+export const parseBrainFile = (text: string): BrainFile => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  const parsed = brainFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    throw new Error(`Not a valid brain file. ${issues.slice(0, 3).join('; ')}`);
+  }
+  const file = parsed.data;
+
+  if (file.version > BRAIN_FILE_VERSION) {
+    throw new Error(`Brain file version ${file.version} is newer than this game supports (${BRAIN_FILE_VERSION}).`);
+  }
+  if (file.engineVersion !== ENGINE_VERSION) {
+    throw new Error(`Brain was trained on engine v${file.engineVersion}, but this game runs engine v${ENGINE_VERSION}.`);
+  }
+  if (file.sensors.layout !== SENSOR_LAYOUT || file.sensors.inputs !== SENSOR_COUNT) {
+    throw new Error(
+      `Sensor layout "${file.sensors.layout}" with ${file.sensors.inputs} inputs does not match this game's "${SENSOR_LAYOUT}" with ${SENSOR_COUNT} inputs.`,
+    );
+  }
+  if (!file.sensors.board && !file.sensors.gridSize) {
+    throw new Error('Brain file does not say which board it was trained on.');
+  }
+  if (file.outputs.join() !== OUTPUT_LABELS.join()) {
+    throw new Error(`Brain outputs (${file.outputs.join(', ')}) do not match ${OUTPUT_LABELS.join(', ')}.`);
+  }
+
+  // The declared topology must agree with the actual weight matrices.
+  if (file.topology[0] !== SENSOR_COUNT || file.topology.length !== file.layers.length + 1) {
+    throw new Error(`Topology ${file.topology.join('-')} does not fit ${file.layers.length} layers and ${SENSOR_COUNT} inputs.`);
+  }
+  file.layers.forEach((layer, index) => {
+    const inputs = file.topology[index];
+    const size = file.topology[index + 1];
+    if (layer.biases.length !== size || layer.weights.length !== size || layer.weights.some(row => row.length !== inputs)) {
+      throw new Error(`Layer ${index + 1} should be ${inputs}→${size} weights but has a different shape.`);
+    }
+  });
+  if (file.topology[file.topology.length - 1] !== OUTPUT_LABELS.length) {
+    throw new Error(`Brain must have ${OUTPUT_LABELS.length} outputs, found ${file.topology[file.topology.length - 1]}.`);
+  }
+
+  // Upgrade version 1 files so callers only ever see `board`.
+  const { gridSize, ...sensors } = file.sensors;
+  return { ...file, sensors: { ...sensors, board: sensors.board ?? { width: gridSize, height: gridSize } } };
+};
+
+// The schema has already checked every field, so the layers can be used as-is.
+export const networkFromBrainFile = (file: BrainFile): Network => ({ layers: file.layers as Network['layers'] });
@@ -0,0 +1,37 @@
+import type { Network } from './network';
+import { SENSOR_COUNT } from './sensors';
+
+export const OUTPUT_LABELS = ['left', 'straight', 'right'] as const;
+
+export const DEFAULT_TOPOLOGY = [SENSOR_COUNT, 8, OUTPUT_LABELS.length];
+
+const row = (weights: Record<number, number>, size: number) =>
+  Array.from({ length: size }, (_, i) => weights[i] ?? 0);
+
+// Hand-wired starting brain so the autopilot plays sensibly before anything
+// has been trained: the hidden layer relays the danger and food sensors, the
+// output layer steers towards food and vetoes any move into danger.
+export const createReflexBrain = (): Network => {
+  const hidden = [0, 1, 2, 3, 4, 5, 6].map(sensor => row({ [sensor]: 1 }, SENSOR_COUNT));
+  hidden.push(row({}, SENSOR_COUNT));
+
+  return {
+    layers: [
+      {
+        weights: hidden,
+        // The last hidden neuron is a constant 1 used to express preferences.
+        biases: [0, 0, 0, 0, 0, 0, 0, 1],
+        activation: 'relu',
+      },
+      {
+        weights: [
+          row({ 1: -6, 4: 0.6, 5: 1, 7: 0.1 }, 8),
+          row({ 0: -6, 3: 1, 7: 0.2 }, 8),
+          row({ 2: -6, 4: 0.6, 6: 1 }, 8),
+        ],
+        biases: [0, 0, 0],
+        activation: 'sigmoid',
+      },
+    ],
+  };
+};
@@ -0,0 +1,197 @@
+// Genetic algorithm over network weights. Topology stays fixed per run; only
+// weights and biases evolve.
+
+import { createNeuralAgent } from '../agents/neural';
+import { playGame, type GameResult } from '../headless';
+import { createRandom } from '../rng';
+import { OUTPUT_LABELS } from './brains';
+import { cloneNetwork, createNetwork, type Activation, type Network } from './network';
+import { SENSOR_COUNT } from './sensors';
+
+export type CrossoverMethod = 'uniform' | 'single-point' | 'none';
+export type FitnessFunctionId = 'food' | 'survival' | 'balanced';
+
+export type EvolutionConfig = {
+  populationSize: number;
+  /** Probability that any single weight is perturbed. */
+  mutationRate: number;
+  /** Standard deviation of the gaussian noise added by a mutation. */
+  mutationStrength: number;
+  crossover: CrossoverMethod;
+  fitness: FitnessFunctionId;
+  /** Genomes copied unchanged into the next generation. */
+  elitism: number;
+  gamesPerGenome: number;
+  hiddenLayers: number[];
+  seed: number;
+};
+
+export type GenerationStats = {
+  generation: number;
+  best: number;
+  mean: number;
+  median: number;
+  bestScore: number;
+};
+
+/** An existing brain to continue training from instead of random weights. */
+export type EvolutionOrigin = {
+  network: Network;
+  generation: number;
+};
+
+export const DEFAULT_EVOLUTION_CONFIG: EvolutionConfig = {
+  populationSize: 100,
+  mutationRate: 0.1,
+  mutationStrength: 0.5,
+  crossover: 'uniform',
+  fitness: 'balanced',
+  elitism: 4,
+  gamesPerGenome: 2,
+  hiddenLayers: [12],
+  seed: 1,
+};
+
+export const FITNESS_FUNCTIONS: Record<FitnessFunctionId, { label: string; evaluate: (result: GameResult) => number }> = {
+  food: {
+    label: 'Food eaten',
+    evaluate: result => result.foods * 100 + result.ticks * 0.01,
+  },
+  survival: {
+    label: 'Survival time',
+    evaluate: result => result.ticks + result.foods * 50,
+  },
+  balanced: {
+    label: 'Balanced (food, survival, no looping)',
+    evaluate: result => result.foods * 100 + result.ticks * 0.5 - (result.outcome === 'starved' ? 100 : 0),
+  },
+};
+
+export const CROSSOVER_LABELS: Record<CrossoverMethod, string> = {
+  uniform: 'Uniform',
+  'single-point': 'Single point',
+  none: 'None (mutation only)',
+};
+
+const topologyFor = (config: EvolutionConfig) => [SENSOR_COUNT, ...config.hiddenLayers, OUTPUT_LABELS.length];
+
+const activationsFor = (config: EvolutionConfig): Activation[] => [
+  ...config.hiddenLayers.map((): Activation => 'relu'),
+  'sigmoid',
+];
+
+const flatten = (network: Network) =>
+  network.layers.flatMap(layer => [...layer.weights.flat(), ...layer.biases]);
+
+const unflatten = (template: Network, genes: number[]): Network => {
+  let offset = 0;
+  const take = () => genes[offset++];
+  return {
+    layers: template.layers.map(layer => ({
+      weights: layer.weights.map(row => row.map(take)),
+      biases: layer.biases.map(take),
+      activation: layer.activation,
+    })),
+  };
+};
+
+// Box-Muller transform.
+const gaussian = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(random() || Number.MIN_VALUE)) * Math.cos(2 * Math.PI * random());
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const crossover = (a: Network, b: Network, method: CrossoverMethod, random: () => number): Network => {
+  if (method === 'none') return cloneNetwork(a);
+  const genesA = flatten(a);
+  const genesB = flatten(b);
+  const cut = Math.floor(random() * genesA.length);
+  const child = genesA.map((gene, i) =>
+    method === 'uniform' ? (random() < 0.5 ? gene : genesB[i]) : i < cut ? gene : genesB[i],
+  );
+  return unflatten(a, child);
+};
+
+const mutate = (network: Network, config: EvolutionConfig, random: () => number): Network =>
+  unflatten(
+    network,
+    flatten(network).map(gene =>
+      random() < config.mutationRate ? gene + gaussian(random) * config.mutationStrength : gene,
+    ),
+  );
+
+export const createEvolution = (config: EvolutionConfig, origin?: EvolutionOrigin) => {
+  const random = createRandom(config.seed);
+  const fitnessOf = FITNESS_FUNCTIONS[config.fitness].evaluate;
+  // An imported brain keeps its own topology; the population starts as its mutants.
+  let population = origin
+    ? Array.from({ length: config.populationSize }, (_, i) =>
+        i === 0 ? cloneNetwork(origin.network) : mutate(origin.network, config, random),
+      )
+    : Array.from({ length: config.populationSize }, () =>
+        createNetwork(topologyFor(config), activationsFor(config), random),
+      );
+  let generation = origin?.generation ?? 0;
+  let champion: { network: Network; fitness: number; score: number } | null = null;
+
+  // Tournament selection keeps pressure moderate and needs no fitness scaling.
+  const select = (fitnesses: number[]) => {
+    let best = Math.floor(random() * population.length);
+    for (let i = 0; i < 2; i++) {
+      const challenger = Math.floor(random() * population.length);
+      if (fitnesses[challenger] > fitnesses[best]) best = challenger;
+    }
+    return population[best];
+  };
+
+  return {
+    get generation() {
+      return generation;
+    },
+    get champion() {
+      return champion;
+    },
+
+    /** Evaluates the current population, breeds the next one and reports how it went. */
+    runGeneration(): GenerationStats {
+      generation++;
+      // Every genome in a generation faces the same seeds so fitness is comparable.
+      const seeds = Array.from({ length: config.gamesPerGenome }, (_, i) => generation * 1000 + i);
+      const evaluations = population.map(network => {
+        const agent = createNeuralAgent(network);
+        const results = seeds.map(seed => playGame(agent, seed));
+        return {
+          fitness: results.reduce((sum, result) => sum + fitnessOf(result), 0) / results.length,
+          score: Math.max(...results.map(result => result.score)),
+        };
+      });
+      const fitnesses = evaluations.map(evaluation => evaluation.fitness);
+      const ranked = fitnesses.map((_, i) => i).sort((a, b) => fitnesses[b] - fitnesses[a]);
+      const best = ranked[0];
+
+      if (!champion || fitnesses[best] >= champion.fitness) {
+        champion = { network: cloneNetwork(population[best]), fitness: fitnesses[best], score: evaluations[best].score };
+      }
+
+      const next = ranked.slice(0, config.elitism).map(i => cloneNetwork(population[i]));
+      while (next.length < config.populationSize) {
+        next.push(mutate(crossover(select(fitnesses), select(fitnesses), config.crossover, random), config, random));
+      }
+      population = next;
+
+      return {
+        generation,
+        best: fitnesses[best],
+        mean: fitnesses.reduce((sum, value) => sum + value, 0) / fitnesses.length,
+        median: median(fitnesses),
+        bestScore: evaluations[best].score,
+      };
+    },
+  };
+};
+
+export type Evolution = ReturnType<typeof createEvolution>;
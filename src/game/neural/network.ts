@@ -0,0 +1,124 @@
+// Minimal dense feed-forward network. Plain arrays keep it serialisable and
+// cheap to copy between the main thread and workers.
+
+export type Activation = 'relu' | 'tanh' | 'sigmoid' | 'linear';
+
+export type Layer = {
+  /** `weights[j][i]` connects input `i` to neuron `j`. */
+  weights: number[][];
+  biases: number[];
+  activation: Activation;
+};
+
+export type Network = {
+  layers: Layer[];
+};
+
+export const ACTIVATIONS: Record<Activation, (x: number) => number> = {
+  relu: x => (x > 0 ? x : 0),
+  tanh: x => Math.tanh(x),
+  sigmoid: x => 1 / (1 + Math.exp(-x)),
+  linear: x => x,
+};
+
+export const topologyOf = (network: Network): number[] =>
+  network.layers.length === 0
+    ? []
+    : [network.layers[0].weights[0]?.length ?? 0, ...network.layers.map(layer => layer.biases.length)];
+
+export const createNetwork = (
+  topology: number[],
+  activations: Activation[],
+  random: () => number,
+): Network => ({
+  layers: topology.slice(1).map((size, index) => {
+    const inputs = topology[index];
+    // Xavier-style uniform init keeps early activations out of saturation.
+    const scale = Math.sqrt(6 / (inputs + size));
+    return {
+      weights: Array.from({ length: size }, () =>
+        Array.from({ length: inputs }, () => (random() * 2 - 1) * scale),
+      ),
+      biases: Array.from({ length: size }, () => 0),
+      activation: activations[index] ?? 'linear',
+    };
+  }),
+});
+
+export const cloneNetwork = (network: Network): Network => ({
+  layers: network.layers.map(layer => ({
+    weights: layer.weights.map(row => [...row]),
+    biases: [...layer.biases],
+    activation: layer.activation,
+  })),
+});
+
+/** Runs the network and returns the activations of every layer, inputs first. */
+export const forward = (network: Network, inputs: number[]): number[][] => {
+  const activations = [inputs];
+  let current = inputs;
+  for (const layer of network.layers) {
+    const activate = ACTIVATIONS[layer.activation];
+    current = layer.weights.map((row, j) => {
+      let sum = layer.biases[j];
+      for (let i = 0; i < row.length; i++) sum += row[i] * current[i];
+      return activate(sum);
+    });
+    activations.push(current);
+  }
+  return activations;
+};
+
+export const argmax = (values: number[]) =>
+  values.reduce((best, value, index) => (value > values[best] ? index : best), 0);
+
+// Derivatives expressed in terms of the activation's output, which is what
+// `forward` hands back.
+const DERIVATIVES: Record<Activation, (y: number) => number> = {
+  relu: y => (y > 0 ? 1 : 0),
+  tanh: y => 1 - y * y,
+  sigmoid: y => y * (1 - y),
+  linear: () => 1,
+};
+
+/**
+ * One step of stochastic gradient descent on squared error, updating the
+ * network in place. Outputs whose target is `null` contribute no gradient,
+ * which is how a Q-network trains only the action that was taken.
+ */
+export const trainSample = (
+  network: Network,
+  inputs: number[],
+  targets: (number | null)[],
+  learningRate: number,
+): number => {
+  const activations = forward(network, inputs);
+  const outputs = activations[activations.length - 1];
+  let loss = 0;
+  let deltas = outputs.map((output, j) => {
+    if (targets[j] === null) return 0;
+    const error = output - targets[j];
+    loss += error * error;
+    return error * DERIVATIVES[network.layers[network.layers.length - 1].activation](output);
+  });
+
+  for (let l = network.layers.length - 1; l >= 0; l--) {
+    const layer = network.layers[l];
+    const layerInputs = activations[l];
+    const previous = l > 0 ? network.layers[l - 1] : null;
+    const nextDeltas = previous ? layerInputs.map(() => 0) : [];
+
+    layer.weights.forEach((row, j) => {
+      const delta = deltas[j];
+      if (delta === 0) return;
+      for (let i = 0; i < row.length; i++) {
+        if (previous) nextDeltas[i] += row[i] * delta;
+        row[i] -= learningRate * delta * layerInputs[i];
+      }
+      layer.biases[j] -= learningRate * delta;
+    });
+
+    if (previous) deltas = nextDeltas.map((sum, i) => sum * DERIVATIVES[previous.activation](layerInputs[i]));
+  }
+  return loss;
+};
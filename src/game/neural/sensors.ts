@@ -0,0 +1,59 @@
+// What a network sees of the board. Everything is expressed relative to the
+// snake's heading so one set of weights works in all four directions.
+
+import { advance, edibleFood, isObstacle, isOutOfBounds, offsetBetween, samePosition, type GameState, type Position } from '../engine';
+import { FOOD_TYPES } from '../food';
+import { turnLeft, turnRight } from '../agents/agent';
+
+export const SENSOR_LAYOUT = 'relative-v1';
+
+export const SENSOR_LABELS = [
+  'danger ahead',
+  'danger left',
+  'danger right',
+  'food ahead',
+  'food behind',
+  'food left',
+  'food right',
+  'heading up',
+  'heading right',
+  'heading down',
+  'heading left',
+];
+
+export const SENSOR_COUNT = SENSOR_LABELS.length;
+
+const isDangerous = (state: GameState, position: Position) =>
+  isOutOfBounds(state.config, position) ||
+  isObstacle(state.config, position) ||
+  (!state.effects.ghost && state.snake.some(segment => samePosition(segment, position))) ||
+  (FOOD_TYPES[state.foodType].lethal && !!state.food && samePosition(state.food, position));
+
+export const readSensors = (state: GameState): number[] => {
+  const head = state.snake[0];
+  const forward = state.direction;
+  const left = turnLeft(forward);
+  const right = turnRight(forward);
+  const look = (direction: Position) => advance(state.config, head, direction);
+
+  // Project the food offset onto the heading and its left-hand normal. On a
+  // wrapping board the offset takes the short way round. Poison counts as
+  // danger, not as food.
+  const { x: dx, y: dy } = offsetBetween(state.config, head, edibleFood(state) ?? head);
+  const along = dx * forward.x + dy * forward.y;
+  const across = dx * left.x + dy * left.y;
+
+  return [
+    Number(isDangerous(state, look(forward))),
+    Number(isDangerous(state, look(left))),
+    Number(isDangerous(state, look(right))),
+    Number(along > 0),
+    Number(along < 0),
+    Number(across > 0),
+    Number(across < 0),
+    Number(forward.y === -1),
+    Number(forward.x === 1),
+    Number(forward.y === 1),
+    Number(forward.x === -1),
+  ];
+};
@@ -0,0 +1,51 @@
+// Power-ups: board pickups that grant a temporary effect. Which ones can
+// spawn is part of the GameConfig; the effects themselves are applied by
+// step(), and their remaining ticks live in GameState.effects.
+
+export type PowerUpId = 'ghost' | 'magnet' | 'slowmo' | 'shield';
+
+export type PowerUp = {
+  label: string;
+  emoji: string;
+  description: string;
+  /** Ticks the effect lasts once picked up. */
+  duration: number;
+};
+
+export const POWER_UPS: Record<PowerUpId, PowerUp> = {
+  ghost: {
+    label: 'Ghost',
+    emoji: '👻',
+    description: 'Slip through your own body.',
+    duration: 30,
+  },
+  magnet: {
+    label: 'Magnet',
+    emoji: '🧲',
+    description: 'Food drifts towards your head.',
+    duration: 60,
+  },
+  slowmo: {
+    label: 'Slow-mo',
+    emoji: '⏳',
+    description: 'Time runs slower.',
+    duration: 60,
+  },
+  shield: {
+    label: 'Shield',
+    emoji: '🛡️',
+    description: 'Absorbs one wall hit.',
+    duration: 150,
+  },
+};
+
+export const POWER_UP_IDS = Object.keys(POWER_UPS) as PowerUpId[];
+
+/** Chance that eating spawns a power-up, when none is on the board. */
+export const POWER_UP_SPAWN_CHANCE = 0.2;
+
+/** Ticks an uncollected power-up stays on the board. */
+export const POWER_UP_TTL = 60;
+
+/** Movement slows to this multiple of the tick while slow-mo lasts. */
+export const SLOW_MO_FACTOR = 1.6;
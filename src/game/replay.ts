@@ -0,0 +1,110 @@
+// Input-level replays: the rules, the seed and every direction change with the
+// tick it was applied on are enough to rebuild a game exactly, because step()
+// is pure.
+
+import { DEFAULT_GAME_CONFIG, type GameConfig } from './config';
+import { DIRECTION_CODES, decodeConfig, directionCode, encodeConfig } from './configCode';
+import { createInitialState, samePosition, step, type Direction, type GameState } from './engine';
+import { FOOD_TABLES } from './food';
+
+export const REPLAY_VERSION = 2;
+
+export type ReplayInput = { tick: number; direction: Direction };
+
+export type Replay = {
+  version: typeof REPLAY_VERSION;
+  config: GameConfig;
+  seed: number;
+  /** Tick count of the final state, so a truncated input list still plays to the end. */
+  ticks: number;
+  score: number;
+  inputs: ReplayInput[];
+};
+
+export const createReplayRecorder = (seed: number, config: GameConfig = DEFAULT_GAME_CONFIG) => {
+  const inputs: ReplayInput[] = [];
+  return {
+    /** Call after every step with the states on either side of it. */
+    record(previous: GameState, next: GameState) {
+      if (!samePosition(previous.direction, next.direction)) {
+        inputs.push({ tick: previous.tick, direction: next.direction });
+      }
+    },
+    finish(final: GameState): Replay {
+      return { version: REPLAY_VERSION, config, seed, ticks: final.tick, score: final.score, inputs: [...inputs] };
+    },
+  };
+};
+
+export type ReplayRecorder = ReturnType<typeof createReplayRecorder>;
+
+// Compact, URL-safe format: `2.<config>.<seed>.<ticks>.<score>.<inputs>` with
+// numbers in base 36, the config as described in configCode.ts and each input
+// as its tick delta followed by a direction letter, e.g.
+// `2.k-k-1-46-a-s.k2j9x.5c.3c.4U7L2D`. Version 1 codes had no config section
+// and always used the classic rules.
+export const encodeReplay = (replay: Replay): string => {
+  let lastTick = 0;
+  const inputs = replay.inputs
+    .map(input => {
+      const delta = input.tick - lastTick;
+      lastTick = input.tick;
+      return delta.toString(36) + directionCode(input.direction);
+    })
+    .join('');
+  return [
+    replay.version,
+    encodeConfig(replay.config),
+    replay.seed.toString(36),
+    replay.ticks.toString(36),
+    replay.score.toString(36),
+    inputs,
+  ].join('.');
+};
+
+export const decodeReplay = (code: string): Replay => {
+  const [version, ...sections] = code.split('.');
+  // Version 1 predates configurable rules, food types and power-ups.
+  if (version === '1') {
+    sections.unshift(encodeConfig({ ...DEFAULT_GAME_CONFIG, foodTable: FOOD_TABLES.classic.table, powerUps: [] }));
+  }
+  else if (Number(version) !== REPLAY_VERSION) throw new Error(`Unsupported replay version "${version}"`);
+  if (sections.length !== 5) throw new Error(`Malformed replay: expected ${version === '1' ? 5 : 6} sections`);
+
+  const [rules, seed, ticks, score, body] = sections;
+  const config = decodeConfig(rules);
+
+  const inputs: ReplayInput[] = [];
+  const pattern = /([0-9a-z]+)([UDLR])/y;
+  let tick = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    tick += parseInt(match[1], 36);
+    inputs.push({ tick, direction: DIRECTION_CODES[match[2]] });
+    if (pattern.lastIndex === body.length) break;
+  }
+  if (body.length > 0 && pattern.lastIndex !== body.length) {
+    throw new Error('Malformed replay: unreadable input section');
+  }
+
+  const numbers = [seed, ticks, score].map(value => parseInt(value, 36));
+  if (numbers.some(Number.isNaN)) throw new Error('Malformed replay: bad header');
+
+  return { version: REPLAY_VERSION, config, seed: numbers[0], ticks: numbers[1], score: numbers[2], inputs };
+};
+
+/** Rebuilds every frame of a replay, frame `i` being the state after `i` ticks. */
+export const buildReplayFrames = (replay: Replay): GameState[] => {
+  let state = createInitialState(replay.seed, replay.config);
+  const frames = [state];
+  let next = 0;
+  while (state.status === 'playing' && state.tick < replay.ticks) {
+    let direction: Direction | null = null;
+    while (next < replay.inputs.length && replay.inputs[next].tick === state.tick) {
+      direction = replay.inputs[next++].direction;
+    }
+    state = step(state, { direction });
+    frames.push(state);
+  }
+  return frames;
+};
@@ -0,0 +1,61 @@
+// Q-functions the trainers learn. Both see the same relative sensors as the
+// neuroevolution brains and choose one of the same three turns.
+
+import { OUTPUT_LABELS } from '../neural/brains';
+import { argmax, cloneNetwork, createNetwork, forward, trainSample, type Network } from '../neural/network';
+import { SENSOR_COUNT } from '../neural/sensors';
+
+export const ACTION_COUNT = OUTPUT_LABELS.length;
+
+export type QFunction = {
+  values(sensors: number[]): number[];
+  /** Moves Q(s, a) towards `target`. */
+  update(sensors: number[], action: number, target: number): void;
+};
+
+/** Every sensor is binary, so the sensor vector doubles as a table index. */
+export const encodeState = (sensors: number[]) =>
+  sensors.reduce((index, value, bit) => index | (value > 0.5 ? 1 << bit : 0), 0);
+
+export const createQTable = (learningRate: number, table = new Float32Array((1 << SENSOR_COUNT) * ACTION_COUNT)) => ({
+  table,
+  values: (sensors: number[]) => {
+    const offset = encodeState(sensors) * ACTION_COUNT;
+    return Array.from(table.subarray(offset, offset + ACTION_COUNT));
+  },
+  update: (sensors: number[], action: number, target: number) => {
+    const index = encodeState(sensors) * ACTION_COUNT + action;
+    table[index] += learningRate * (target - table[index]);
+  },
+});
+
+export type QTable = ReturnType<typeof createQTable>;
+
+export const createQNetwork = (hiddenLayers: number[], learningRate: number, random: () => number) => {
+  const network = createNetwork(
+    [SENSOR_COUNT, ...hiddenLayers, ACTION_COUNT],
+    [...hiddenLayers.map(() => 'relu' as const), 'linear'],
+    random,
+  );
+  return {
+    network,
+    values: (sensors: number[]) => forward(network, sensors)[network.layers.length],
+    update: (sensors: number[], action: number, target: number) => {
+      const targets: (number | null)[] = Array.from({ length: ACTION_COUNT }, () => null);
+      targets[action] = target;
+      trainSample(network, sensors, targets, learningRate);
+    },
+    /** Frozen copy used for bootstrapped targets between syncs. */
+    snapshot: (): QFunction => {
+      const frozen = cloneNetwork(network);
+      return {
+        values: sensors => forward(frozen, sensors)[frozen.layers.length],
+        update: () => {},
+      };
+    },
+  };
+};
+
+export type QNetwork = ReturnType<typeof createQNetwork>;
+
+export const greedyAction = (q: Pick<QFunction, 'values'>, sensors: number[]) => argmax(q.values(sensors));
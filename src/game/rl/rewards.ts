@@ -0,0 +1,34 @@
+import { edibleFood, offsetBetween, type GameState } from '../engine';
+
+export type RewardConfig = {
+  /** Reward for eating. */
+  food: number;
+  /** Penalty (positive number) for dying or starving. */
+  death: number;
+  /** Penalty (positive number) applied on every tick, to discourage dawdling. */
+  step: number;
+  /** Reward for moving closer to the food, and the same penalty for moving away. */
+  distance: number;
+};
+
+export const DEFAULT_REWARDS: RewardConfig = {
+  food: 10,
+  death: 10,
+  step: 0.01,
+  distance: 0.1,
+};
+
+const foodDistance = (state: GameState) => {
+  const food = edibleFood(state);
+  if (!food) return 0;
+  const offset = offsetBetween(state.config, state.snake[0], food);
+  return Math.abs(offset.x) + Math.abs(offset.y);
+};
+
+export const computeReward = (previous: GameState, next: GameState, config: RewardConfig): number => {
+  if (next.status === 'gameOver') return -config.death;
+  if (next.events.some(event => event.type === 'eat')) return config.food;
+
+  const closer = foodDistance(previous) - foodDistance(next);
+  return -config.step + Math.sign(closer) * config.distance;
+};
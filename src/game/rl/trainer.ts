@@ -0,0 +1,140 @@
+// Q-learning trainer: tabular, or a small dense Q-network with experience
+// replay and a periodically synced target network ("DQN-lite").
+
+import { createInitialState, step, type GameState } from '../engine';
+import { defaultStarvationTicks } from '../headless';
+import { applyTurn } from '../agents/agent';
+import { OUTPUT_LABELS } from '../neural/brains';
+import { readSensors } from '../neural/sensors';
+import { createRandom } from '../rng';
+import { ACTION_COUNT, createQNetwork, createQTable, greedyAction, type QFunction } from './policies';
+import { DEFAULT_REWARDS, computeReward, type RewardConfig } from './rewards';
+
+export type RlMethod = 'tabular' | 'dqn';
+
+export type RlConfig = {
+  method: RlMethod;
+  learningRate: number;
+  /** Discount factor γ. */
+  discount: number;
+  epsilonStart: number;
+  epsilonEnd: number;
+  /** Multiplied into ε after every episode. */
+  epsilonDecay: number;
+  rewards: RewardConfig;
+  /** DQN only: experience replay capacity, minibatch size and target sync interval in ticks. */
+  replaySize: number;
+  batchSize: number;
+  targetSync: number;
+  hiddenLayers: number[];
+  seed: number;
+};
+
+export type EpisodeStats = {
+  episode: number;
+  reward: number;
+  score: number;
+  ticks: number;
+  epsilon: number;
+};
+
+export const RL_METHOD_LABELS: Record<RlMethod, string> = {
+  tabular: 'Tabular Q-learning',
+  dqn: 'DQN-lite (dense Q-network)',
+};
+
+export const DEFAULT_RL_CONFIG: RlConfig = {
+  method: 'tabular',
+  learningRate: 0.1,
+  discount: 0.9,
+  epsilonStart: 1,
+  epsilonEnd: 0.01,
+  epsilonDecay: 0.995,
+  rewards: DEFAULT_REWARDS,
+  replaySize: 10_000,
+  batchSize: 32,
+  targetSync: 500,
+  hiddenLayers: [32],
+  seed: 1,
+};
+
+// Gradient steps need a much smaller rate than table updates.
+export const DEFAULT_DQN_LEARNING_RATE = 0.001;
+
+type Transition = { sensors: number[]; action: number; reward: number; next: number[]; done: boolean };
+
+export const createRlTrainer = (config: RlConfig) => {
+  const random = createRandom(config.seed);
+  const table = config.method === 'tabular' ? createQTable(config.learningRate) : null;
+  const qNetwork = config.method === 'dqn' ? createQNetwork(config.hiddenLayers, config.learningRate, random) : null;
+  const q: QFunction = table ?? qNetwork;
+  let target: QFunction = qNetwork?.snapshot() ?? q;
+  const replay: Transition[] = [];
+  let replayCursor = 0;
+  let totalTicks = 0;
+  let episode = 0;
+  let epsilon = config.epsilonStart;
+
+  const bootstrap = (transition: Transition) =>
+    transition.done ? transition.reward : transition.reward + config.discount * Math.max(...target.values(transition.next));
+
+  const learn = (transition: Transition) => {
+    if (!qNetwork) {
+      q.update(transition.sensors, transition.action, bootstrap(transition));
+      return;
+    }
+
+    if (replay.length < config.replaySize) replay.push(transition);
+    else replay[replayCursor] = transition;
+    replayCursor = (replayCursor + 1) % config.replaySize;
+
+    for (let i = 0; i < Math.min(config.batchSize, replay.length); i++) {
+      const sample = replay[Math.floor(random() * replay.length)];
+      q.update(sample.sensors, sample.action, bootstrap(sample));
+    }
+    if (totalTicks % config.targetSync === 0) target = qNetwork.snapshot();
+  };
+
+  return {
+    get episode() {
+      return episode;
+    },
+    get table() {
+      return table?.table ?? null;
+    },
+    get network() {
+      return qNetwork?.network ?? null;
+    },
+
+    runEpisode(): EpisodeStats {
+      episode++;
+      let state: GameState = createInitialState(config.seed + episode);
+      let sensors = readSensors(state);
+      let reward = 0;
+      let lastMeal = 0;
+
+      while (state.status === 'playing') {
+        const action = random() < epsilon ? Math.floor(random() * ACTION_COUNT) : greedyAction(q, sensors);
+        const next = step(state, { direction: applyTurn(state.direction, OUTPUT_LABELS[action]) });
+        if (next.events.some(event => event.type === 'eat')) lastMeal = next.tick;
+        // Circling without eating is punished like a death so the agent can't farm step rewards.
+        const starved = next.status === 'playing' && next.tick - lastMeal >= defaultStarvationTicks(next.config);
+        const stepReward = starved ? -config.rewards.death : computeReward(state, next, config.rewards);
+        const nextSensors = readSensors(next);
+
+        totalTicks++;
+        learn({ sensors, action, reward: stepReward, next: nextSensors, done: next.status !== 'playing' || starved });
+        reward += stepReward;
+        state = next;
+        sensors = nextSensors;
+        if (starved) break;
+      }
+
+      const stats = { episode, reward, score: state.score, ticks: state.tick, epsilon };
+      epsilon = Math.max(config.epsilonEnd, epsilon * config.epsilonDecay);
+      return stats;
+    },
+  };
+};
+
+export type RlTrainer = ReturnType<typeof createRlTrainer>;
@@ -0,0 +1,48 @@
+// Seedable PRNG (mulberry32). The generator state is a plain uint32 that
+// lives inside GameState, so every draw is a pure function of the seed and
+// the inputs that led to it.
+
+export type RngState = number;
+
+const UINT32_RANGE = 0x100000000;
+
+export const nextRandom = (state: RngState): [value: number, next: RngState] => {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE, next];
+};
+
+export const nextInt = (state: RngState, max: number): [value: number, next: RngState] => {
+  const [value, next] = nextRandom(state);
+  return [Math.floor(value * max), next];
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * UINT32_RANGE) >>> 0;
+
+// Numeric seeds are used as-is; anything else ("?seed=banana") is hashed
+// with FNV-1a so shared links stay readable.
+export const parseSeed = (input: string | null | undefined): number | null => {
+  if (input == null) return null;
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return Number(BigInt(trimmed) % BigInt(UINT32_RANGE));
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** Stateful convenience wrapper for code outside the engine (bots, trainers). */
+export const createRandom = (seed: number): (() => number) => {
+  let state: RngState = seed >>> 0;
+  return () => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return value;
+  };
+};
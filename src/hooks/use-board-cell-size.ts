@@ -0,0 +1,29 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+
+/** Share of the window height the board may fill, leaving room for the HUD around it. */
+export const MAX_BOARD_HEIGHT_SHARE = 0.7;
+
+// Largest square cell that fits `width` × `height` cells into the container's
+// width and the window's height. Follows both through a ResizeObserver and
+// window resizes; 0 until the container has been measured.
+export const useBoardCellSize = <T extends HTMLElement>(width: number, height: number) => {
+  const ref = useRef<T>(null);
+  const [area, setArea] = useState({ width: 0, height: 0 });
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const measure = () => setArea({ width: element.clientWidth, height: window.innerHeight * MAX_BOARD_HEIGHT_SHARE });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  return [ref, Math.max(Math.min(area.width / width, area.height / height), 0)] as const;
+};
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+
+/** Most simulation steps run in one frame; anything beyond is dropped, e.g. after a background tab resumes. */
+export const MAX_CATCH_UP_STEPS = 5;
+
+type FixedStepLoopOptions = {
+  running: boolean;
+  /** Length of the next step; read before every step so speed changes apply at once. */
+  stepMs: () => number;
+  onStep: () => void;
+  /** Called once per animation frame with how far the next step has progressed, from 0 to 1. */
+  onFrame?: (alpha: number) => void;
+};
+
+// requestAnimationFrame loop with an accumulator: the simulation advances in
+// whole steps of stepMs however uneven the frames are, and rendering can
+// interpolate between the last two states. The callbacks are read through a
+// ref, so passing new ones on every render never restarts the loop.
+export const useFixedStepLoop = ({ running, stepMs, onStep, onFrame }: FixedStepLoopOptions) => {
+  const callbacks = useRef({ stepMs, onStep, onFrame });
+  callbacks.current = { stepMs, onStep, onFrame };
+
+  useEffect(() => {
+    if (!running) return;
+
+    let frame = 0;
+    let last = performance.now();
+    let accumulator = 0;
+
+    const loop = (now: number) => {
+      accumulator = Math.min(accumulator + now - last, callbacks.current.stepMs() * MAX_CATCH_UP_STEPS);
+      last = now;
+      for (let length = callbacks.current.stepMs(); accumulator >= length; length = callbacks.current.stepMs()) {
+        accumulator -= length;
+        callbacks.current.onStep();
+      }
+      callbacks.current.onFrame?.(Math.min(accumulator / callbacks.current.stepMs(), 1));
+      frame = requestAnimationFrame(loop);
+    };
+
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, [running]);
+};
@@ -0,0 +1,34 @@
+import { useState, useSyncExternalStore } from 'react';
+
+/** Interpolation progress, written every animation frame and read by whatever draws it. */
+export type FrameAlpha = {
+  get: () => number;
+  set: (alpha: number) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+const createFrameAlpha = (): FrameAlpha => {
+  let alpha = 1;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => alpha,
+    set: next => {
+      alpha = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+// Progress changes every frame, so it lives outside React state: the game
+// loop writes it and only the board that reads it re-renders.
+export const useFrameAlphaSource = () => useState(createFrameAlpha)[0];
+
+const noSubscription = () => () => {};
+
+/** Latest alpha from `source`, or 1 when there is none. */
+export const useFrameAlpha = (source?: FrameAlpha) =>
+  useSyncExternalStore(source?.subscribe ?? noSubscription, () => source?.get() ?? 1);
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { GAMEPAD_ACTIONS, GAMEPAD_DEADZONE, type GamepadAction, type GamepadButtons } from '@/lib/gamepad';
+import { toast } from '@/hooks/use-toast';
+
+type GamepadOptions = {
+  /** Off while e.g. a dialog is remapping buttons, so those presses don't also play. */
+  enabled: boolean;
+  buttons: GamepadButtons;
+  onAction: (action: GamepadAction) => void;
+};
+
+// The left stick as a steering action: whichever axis is pushed further, once past the deadzone.
+const stickAction = (pad: Gamepad): GamepadAction | null => {
+  const [x = 0, y = 0] = pad.axes;
+  if (Math.max(Math.abs(x), Math.abs(y)) < GAMEPAD_DEADZONE) return null;
+  if (Math.abs(x) > Math.abs(y)) return x > 0 ? 'right' : 'left';
+  return y > 0 ? 'down' : 'up';
+};
+
+// Polls every connected controller once per animation frame; the Gamepad API
+// has no button events. Actions fire on the press, not while held, and the
+// stick fires once each time it is pushed into a new direction. Controllers
+// announce themselves with a toast as they come and go.
+export const useGamepad = ({ enabled, buttons, onAction }: GamepadOptions) => {
+  const options = useRef({ enabled, buttons, onAction });
+  options.current = { enabled, buttons, onAction };
+
+  useEffect(() => {
+    const connected = (e: GamepadEvent) => toast({ title: 'Controller connected', description: e.gamepad.id });
+    const disconnected = (e: GamepadEvent) => toast({ title: 'Controller disconnected', description: e.gamepad.id });
+    window.addEventListener('gamepadconnected', connected);
+    window.addEventListener('gamepaddisconnected', disconnected);
+
+    // Held buttons and stick direction per controller from the previous poll.
+    const held = new Map<number, { buttons: boolean[]; stick: GamepadAction | null }>();
+    let frame = 0;
+
+    const poll = () => {
+      for (const pad of navigator.getGamepads?.() ?? []) {
+        if (!pad) continue;
+        const previous = held.get(pad.index);
+        const pressed = pad.buttons.map(button => button.pressed);
+        const stick = stickAction(pad);
+        held.set(pad.index, { buttons: pressed, stick });
+        // The first poll only records what is already held.
+        if (!previous || !options.current.enabled) continue;
+
+        for (const { action } of GAMEPAD_ACTIONS) {
+          const index = options.current.buttons[action];
+          if (pressed[index] && !previous.buttons[index]) options.current.onAction(action);
+        }
+        if (stick && stick !== previous.stick) options.current.onAction(stick);
+      }
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('gamepadconnected', connected);
+      window.removeEventListener('gamepaddisconnected', disconnected);
+    };
+  }, []);
+};
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_SETTINGS, type Settings } from '@/lib/settings';
+
+export type SettingsPatch = Partial<Omit<Settings, 'version'>>;
+
+type SettingsContextValue = {
+  settings: Settings;
+  /** Merges `patch` into the settings, which then save themselves. */
+  updateSettings: (patch: SettingsPatch) => void;
+};
+
+export const SettingsContext = createContext<SettingsContextValue>({ settings: DEFAULT_SETTINGS, updateSettings: () => {} });
+
+/** The player's settings, provided by SettingsProvider. */
+export const useSettings = () => useContext(SettingsContext);
@@ -0,0 +1,40 @@
+import { useRef, type PointerEvent } from 'react';
+import { DIRECTIONS, type Direction } from '@/game/engine';
+
+type SwipeOptions = {
+  enabled: boolean;
+  /** Pixels travelled along the main axis before a swipe fires. */
+  minDistance: number;
+  onSwipe: (direction: Direction) => void;
+};
+
+// Pointer handlers that turn drags into directions. A swipe fires as soon as
+// the finger has travelled far enough and is measured afresh from there, so
+// one unbroken drag can steer round a corner: right, then up.
+export const useSwipe = ({ enabled, minDistance, onSwipe }: SwipeOptions) => {
+  const origin = useRef<{ pointer: number; x: number; y: number } | null>(null);
+  if (!enabled) return {};
+
+  const end = () => {
+    origin.current = null;
+  };
+
+  return {
+    onPointerDown: (e: PointerEvent<HTMLElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      origin.current = { pointer: e.pointerId, x: e.clientX, y: e.clientY };
+    },
+    onPointerMove: (e: PointerEvent<HTMLElement>) => {
+      const start = origin.current;
+      if (!start || start.pointer !== e.pointerId) return;
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+      if (Math.max(Math.abs(dx), Math.abs(dy)) < minDistance) return;
+      if (Math.abs(dx) > Math.abs(dy)) onSwipe(dx > 0 ? DIRECTIONS.right : DIRECTIONS.left);
+      else onSwipe(dy > 0 ? DIRECTIONS.down : DIRECTIONS.up);
+      origin.current = { pointer: e.pointerId, x: e.clientX, y: e.clientY };
+    },
+    onPointerUp: end,
+    onPointerCancel: end,
+  };
+};
@@ -14,13 +14,108 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      levels: {
+        Row: {
+          code: string
+          created_at: string
+          height: number
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+          width: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          height: number
+          id?: string
+          name: string
+          updated_at?: string
+          user_id?: string
+          width: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          height?: number
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          width?: number
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          id: string
+          settings: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          settings?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          settings?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      scores: {
+        Row: {
+          created_at: string
+          difficulty: string
+          id: string
+          level_id: string | null
+          mode: string
+          player_name: string
+          rules: string
+          score: number
+          user_id: string
+          walls: string
+        }
+        Insert: {
+          created_at?: string
+          difficulty: string
+          id?: string
+          level_id?: string | null
+          mode: string
+          player_name: string
+          rules: string
+          score: number
+          user_id?: string
+          walls: string
+        }
+        Update: {
+          created_at?: string
+          difficulty?: string
+          id?: string
+          level_id?: string | null
+          mode?: string
+          player_name?: string
+          rules?: string
+          score?: number
+          user_id?: string
+          walls?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      touch_updated_at: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,23 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** Signs in without any details, so scores, levels and settings can be saved straight away. */
+export const signInAsGuest = async () => {
+  const { error } = await supabase.auth.signInAnonymously();
+  if (error) throw new Error(`Could not sign in as a guest: ${error.message}`);
+};
+
+/**
+ * Emails a sign-in link. A guest adds the address to their account instead,
+ * so what they saved as a guest stays theirs on every device.
+ */
+export const sendSignInLink = async (email: string, guest: boolean) => {
+  const { error } = guest
+    ? await supabase.auth.updateUser({ email }, { emailRedirectTo: window.location.origin })
+    : await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: window.location.origin } });
+  if (error) throw new Error(`Could not send the sign-in link: ${error.message}`);
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw new Error(`Could not sign out: ${error.message}`);
+};
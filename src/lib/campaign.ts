@@ -0,0 +1,34 @@
+import { LEVELS } from '@/game/levels';
+
+const STORAGE_KEY = 'neural-snake.campaign';
+
+export type CampaignProgress = {
+  /** Best score per level id. */
+  bestScores: Record<string, number>;
+};
+
+export const loadCampaignProgress = (): CampaignProgress => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return { bestScores: stored.bestScores ?? {} };
+  } catch {
+    return { bestScores: {} };
+  }
+};
+
+/** Saves the score if it beats the level's best and returns the updated progress. */
+export const recordLevelScore = (levelId: string, score: number): CampaignProgress => {
+  const progress = loadCampaignProgress();
+  if (score > (progress.bestScores[levelId] ?? 0)) {
+    progress.bestScores[levelId] = score;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  }
+  return progress;
+};
+
+export const isLevelCleared = (progress: CampaignProgress, index: number) =>
+  (progress.bestScores[LEVELS[index]?.id] ?? 0) >= (LEVELS[index]?.targetScore ?? Infinity);
+
+// The first level is always open; every other one needs the previous target.
+export const isLevelUnlocked = (progress: CampaignProgress, index: number) =>
+  index === 0 || isLevelCleared(progress, index - 1);
@@ -0,0 +1,30 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { encodeLevelCode, type CustomLevel } from '@/game/customLevel';
+
+export type CloudLevel = Tables<'levels'>;
+
+/** Saves a new level, or overwrites `id` when given; returns the stored row. */
+export const saveCloudLevel = async (level: CustomLevel, id?: string): Promise<CloudLevel> => {
+  const row = {
+    name: level.name,
+    code: encodeLevelCode(level),
+    width: level.config.width,
+    height: level.config.height,
+  };
+  const { data, error } = id
+    ? await supabase.from('levels').update(row).eq('id', id).select().single()
+    : await supabase.from('levels').insert(row).select().single();
+  if (error) throw new Error(`Could not save the level: ${error.message}`);
+  return data;
+};
+
+export const listCloudLevels = async (userId: string): Promise<CloudLevel[]> => {
+  const { data, error } = await supabase
+    .from('levels')
+    .select()
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+  if (error) throw new Error(`Could not load your levels: ${error.message}`);
+  return data;
+};
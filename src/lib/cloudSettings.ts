@@ -0,0 +1,14 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Settings } from '@/lib/settings';
+
+/** The settings stored in the player's profile, in whatever version they were saved, or null without a profile. */
+export const loadProfileSettings = async (userId: string): Promise<unknown> => {
+  const { data, error } = await supabase.from('profiles').select('settings').eq('id', userId).maybeSingle();
+  if (error) throw new Error(`Could not load your settings: ${error.message}`);
+  return data?.settings ?? null;
+};
+
+export const saveProfileSettings = async (userId: string, settings: Settings) => {
+  const { error } = await supabase.from('profiles').upsert({ id: userId, settings });
+  if (error) throw new Error(`Could not save your settings: ${error.message}`);
+};
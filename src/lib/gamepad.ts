@@ -0,0 +1,35 @@
+export type GamepadAction = 'up' | 'down' | 'left' | 'right' | 'pause' | 'start';
+
+/** Button index per action, as reported by the Gamepad API. */
+export type GamepadButtons = Record<GamepadAction, number>;
+
+export const GAMEPAD_ACTIONS: { action: GamepadAction; label: string }[] = [
+  { action: 'up', label: 'Up' },
+  { action: 'down', label: 'Down' },
+  { action: 'left', label: 'Left' },
+  { action: 'right', label: 'Right' },
+  { action: 'pause', label: 'Pause' },
+  { action: 'start', label: 'Start / restart' },
+];
+
+// The browser's "standard" layout: D-pad on 12-15, Start on 9, A on 0.
+export const DEFAULT_GAMEPAD_BUTTONS: GamepadButtons = { up: 12, down: 13, left: 14, right: 15, pause: 9, start: 0 };
+
+const STANDARD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'Left stick', 'Right stick',
+  'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home',
+];
+
+export const gamepadButtonName = (index: number) => STANDARD_BUTTON_NAMES[index] ?? `Button ${index}`;
+
+/** Stick deflection, from 0 to 1, below which the left stick does not steer. */
+export const GAMEPAD_DEADZONE = 0.5;
+
+/** Index of the first button held on any connected controller, if any. */
+export const firstPressedButton = (): number | null => {
+  for (const pad of navigator.getGamepads?.() ?? []) {
+    const index = pad?.buttons.findIndex(button => button.pressed) ?? -1;
+    if (index >= 0) return index;
+  }
+  return null;
+};
@@ -0,0 +1,55 @@
+export type KeyAction = 'up' | 'down' | 'left' | 'right' | 'pause' | 'restart' | 'menu';
+
+/** Keys per action, as `KeyboardEvent.key` values with letters in lower case. */
+export type KeyBindings = Record<KeyAction, string[]>;
+
+export const KEY_ACTIONS: { action: KeyAction; label: string }[] = [
+  { action: 'up', label: 'Up' },
+  { action: 'down', label: 'Down' },
+  { action: 'left', label: 'Left' },
+  { action: 'right', label: 'Right' },
+  { action: 'pause', label: 'Pause / resume' },
+  { action: 'restart', label: 'Restart' },
+  { action: 'menu', label: 'Quit to menu' },
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['ArrowUp', 'w'],
+  down: ['ArrowDown', 's'],
+  left: ['ArrowLeft', 'a'],
+  right: ['ArrowRight', 'd'],
+  pause: [' '],
+  restart: ['r'],
+  menu: ['Escape'],
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+/** Letters match whether or not Shift or Caps Lock is on. */
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+export const keyLabel = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+/** The keys bound to `action`, ready to show, e.g. "↑ / W". */
+export const describeKeys = (bindings: KeyBindings, action: KeyAction) =>
+  bindings[action].length > 0 ? bindings[action].map(keyLabel).join(' / ') : 'unbound';
+
+/** First action bound to `key`, in KEY_ACTIONS order. */
+export const actionForKey = (bindings: KeyBindings, key: string): KeyAction | null =>
+  KEY_ACTIONS.find(({ action }) => bindings[action].includes(normalizeKey(key)))?.action ?? null;
+
+/** Keys bound to more than one action, with the actions they are bound to. */
+export const findKeyConflicts = (bindings: KeyBindings): Map<string, KeyAction[]> => {
+  const byKey = new Map<string, KeyAction[]>();
+  for (const { action } of KEY_ACTIONS) {
+    for (const key of bindings[action]) byKey.set(key, [...(byKey.get(key) ?? []), action]);
+  }
+  return new Map([...byKey].filter(([, actions]) => actions.length > 1));
+};
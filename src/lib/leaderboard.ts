@@ -0,0 +1,162 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_GAME_CONFIG, GAME_PRESETS, WALL_LABELS, findPreset, type GameConfig, type GamePresetId, type WallBehavior } from '@/game/config';
+import { encodeConfig } from '@/game/configCode';
+import { DIFFICULTIES, type DifficultyId } from '@/game/difficulty';
+import { LEVELS, findLevel, type Level } from '@/game/levels';
+
+const NAME_KEY = 'neural-snake.player-name';
+
+export const MAX_PLAYER_NAME_LENGTH = 24;
+
+export type ScoreEntry = Tables<'scores'>;
+
+/** A board preset, any other free-play rules, or the campaign. */
+export type ScoreMode = GamePresetId | 'custom' | 'campaign';
+
+export const SCORE_MODES: Record<ScoreMode, string> = {
+  ...(Object.fromEntries(Object.entries(GAME_PRESETS).map(([id, { label }]) => [id, label])) as Record<GamePresetId, string>),
+  custom: 'Custom rules',
+  campaign: 'Campaign',
+};
+
+/**
+ * One ranking: only scores played under the same rules are compared, so a
+ * Hard game or a wrapping board never shares a table with a Normal one.
+ */
+export type LeaderboardBoard = {
+  mode: ScoreMode;
+  /** Campaign level; each level is ranked on its own. */
+  levelId: string | null;
+  /** Null for campaign levels, which bring their own. */
+  difficulty: DifficultyId | null;
+  walls: WallBehavior | null;
+  /** Config code the custom rules were played with; null lists every custom rule set. */
+  rules: string | null;
+};
+
+export const DEFAULT_LEADERBOARD_BOARD: LeaderboardBoard = {
+  mode: 'classic',
+  levelId: null,
+  difficulty: DEFAULT_GAME_CONFIG.difficulty,
+  walls: DEFAULT_GAME_CONFIG.walls,
+  rules: null,
+};
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all';
+
+/** Rolling windows, so the daily board never empties out at midnight. */
+export const LEADERBOARD_PERIODS: Record<LeaderboardPeriod, { label: string; ms: number | null }> = {
+  daily: { label: 'Daily', ms: 24 * 60 * 60 * 1000 },
+  weekly: { label: 'Weekly', ms: 7 * 24 * 60 * 60 * 1000 },
+  all: { label: 'All time', ms: null },
+};
+
+// Difficulty is ranked on its own, so a Hard game on the Classic board still
+// counts as Classic. Every preset plays at the default difficulty.
+const boardPreset = (config: GameConfig) => findPreset({ ...config, difficulty: DEFAULT_GAME_CONFIG.difficulty });
+
+/** The ranking a finished game goes into. */
+export const scoreBoard = (config: GameConfig, level: Level | null): LeaderboardBoard => {
+  if (level) return { mode: 'campaign', levelId: level.id, difficulty: null, walls: null, rules: null };
+  const preset = boardPreset(config);
+  return {
+    mode: preset ?? 'custom',
+    levelId: null,
+    difficulty: config.difficulty,
+    walls: config.walls,
+    rules: preset ? null : encodeConfig(config),
+  };
+};
+
+/** The leaderboard URL's query for `board`; boardFromSearch reads it back. */
+export const boardSearchParams = (board: LeaderboardBoard) => {
+  const params = new URLSearchParams({ mode: board.mode });
+  if (board.levelId) params.set('level', board.levelId);
+  if (board.difficulty) params.set('difficulty', board.difficulty);
+  if (board.walls) params.set('walls', board.walls);
+  if (board.rules) params.set('rules', board.rules);
+  return params;
+};
+
+/** Path to the leaderboard showing `board`, e.g. from the game-over screen. */
+export const leaderboardPath = (board: LeaderboardBoard) => `/leaderboard?${boardSearchParams(board)}`;
+
+/** Reads a board from the leaderboard URL, falling back to the defaults for anything missing or unknown. */
+export const boardFromSearch = (params: URLSearchParams): LeaderboardBoard => {
+  const mode = params.get('mode') ?? '';
+  if (mode === 'campaign') {
+    const level = findLevel(params.get('level') ?? '') ?? LEVELS[0];
+    return { mode, levelId: level.id, difficulty: null, walls: null, rules: null };
+  }
+  const difficulty = params.get('difficulty') ?? '';
+  const walls = params.get('walls') ?? '';
+  return {
+    mode: mode in SCORE_MODES ? (mode as ScoreMode) : DEFAULT_LEADERBOARD_BOARD.mode,
+    levelId: null,
+    difficulty: difficulty in DIFFICULTIES ? (difficulty as DifficultyId) : DEFAULT_LEADERBOARD_BOARD.difficulty,
+    walls: walls in WALL_LABELS ? (walls as WallBehavior) : DEFAULT_LEADERBOARD_BOARD.walls,
+    rules: mode === 'custom' ? params.get('rules') || null : null,
+  };
+};
+
+export const loadPlayerName = () => localStorage.getItem(NAME_KEY) ?? '';
+
+export const savePlayerName = (name: string) => localStorage.setItem(NAME_KEY, name);
+
+export type ScoreSubmission = {
+  playerName: string;
+  score: number;
+  config: GameConfig;
+  level: Level | null;
+};
+
+export const submitScore = async ({ playerName, score, config, level }: ScoreSubmission): Promise<ScoreEntry> => {
+  const { mode } = scoreBoard(config, level);
+  const { data, error } = await supabase
+    .from('scores')
+    .insert({
+      player_name: playerName.trim().slice(0, MAX_PLAYER_NAME_LENGTH),
+      score,
+      mode,
+      level_id: level?.id ?? null,
+      difficulty: config.difficulty,
+      walls: config.walls,
+      rules: encodeConfig(config),
+    })
+    .select()
+    .single();
+  if (error) throw new Error(`Could not submit the score: ${error.message}`);
+  return data;
+};
+
+export type LeaderboardQuery = {
+  period: LeaderboardPeriod;
+  board: LeaderboardBoard;
+  /** Zero-based. */
+  page: number;
+  pageSize: number;
+};
+
+export type LeaderboardPage = {
+  entries: ScoreEntry[];
+  /** Scores across all pages. */
+  total: number;
+};
+
+/** Highest scores first; ties go to whoever got there first. */
+export const listScores = async ({ period, board, page, pageSize }: LeaderboardQuery): Promise<LeaderboardPage> => {
+  let query = supabase.from('scores').select('*', { count: 'exact' }).eq('mode', board.mode);
+  if (board.levelId) query = query.eq('level_id', board.levelId);
+  if (board.difficulty) query = query.eq('difficulty', board.difficulty);
+  if (board.walls) query = query.eq('walls', board.walls);
+  if (board.rules) query = query.eq('rules', board.rules);
+  const window = LEADERBOARD_PERIODS[period].ms;
+  if (window !== null) query = query.gte('created_at', new Date(Date.now() - window).toISOString());
+  const { data, count, error } = await query
+    .order('score', { ascending: false })
+    .order('created_at', { ascending: true })
+    .range(page * pageSize, (page + 1) * pageSize - 1);
+  if (error) throw new Error(`Could not load the leaderboard: ${error.message}`);
+  return { entries: data, total: count ?? 0 };
+};
@@ -0,0 +1,6 @@
+export type BoardRenderer = 'canvas' | 'dom';
+
+export const BOARD_RENDERERS: Record<BoardRenderer, { label: string; description: string }> = {
+  canvas: { label: 'Canvas', description: 'Draws the board on a canvas. Stays smooth on large boards.' },
+  dom: { label: 'DOM', description: 'One element per cell. Slower on large boards; use it if the canvas misbehaves.' },
+};
@@ -0,0 +1,33 @@
+import { decodeReplay, encodeReplay, type Replay } from '@/game/replay';
+
+const STORAGE_KEY = 'neural-snake.replays';
+const MAX_STORED_REPLAYS = 50;
+
+type StoredReplays = Record<string, { code: string; savedAt: number }>;
+
+const readStore = (): StoredReplays => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveReplay = (replay: Replay): string => {
+  const store = readStore();
+  const id = Math.random().toString(36).slice(2, 10);
+  store[id] = { code: encodeReplay(replay), savedAt: Date.now() };
+
+  // Keep only the most recent replays so localStorage never fills up.
+  const ids = Object.keys(store).sort((a, b) => store[b].savedAt - store[a].savedAt);
+  ids.slice(MAX_STORED_REPLAYS).forEach(stale => delete store[stale]);
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  return id;
+};
+
+// `id` is either a locally saved replay or a full replay code pasted into the URL.
+export const loadReplay = (id: string): Replay => {
+  const stored = readStore()[id];
+  return decodeReplay(stored ? stored.code : id);
+};
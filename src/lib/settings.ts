@@ -0,0 +1,162 @@
+// Player settings: one versioned object kept in localStorage and, for
+// signed-in players, in their Supabase profile. Stored objects from older
+// versions are brought up to date by MIGRATIONS before they are read.
+
+import { DEFAULT_GAME_CONFIG } from '@/game/config';
+import { decodeConfig, encodeConfig } from '@/game/configCode';
+import { DEFAULT_GAMEPAD_BUTTONS, GAMEPAD_ACTIONS, type GamepadButtons } from '@/lib/gamepad';
+import { DEFAULT_KEY_BINDINGS, KEY_ACTIONS, type KeyBindings } from '@/lib/keyBindings';
+import { BOARD_RENDERERS, type BoardRenderer } from '@/lib/renderer';
+import { DEFAULT_TOUCH_SETTINGS, TOUCH_MODE_LABELS, type TouchSettings } from '@/lib/touchControls';
+
+const STORAGE_KEY = 'neural-snake.settings';
+
+export const SETTINGS_VERSION = 1;
+
+export type ThemeId = 'neon' | 'sunset' | 'toxic';
+
+export const THEMES: Record<ThemeId, { label: string; description: string }> = {
+  neon: { label: 'Neon', description: 'Purple, blue and pink.' },
+  sunset: { label: 'Sunset', description: 'Orange, amber and rose.' },
+  toxic: { label: 'Toxic', description: 'Lime, teal and yellow.' },
+};
+
+export type Settings = {
+  version: typeof SETTINGS_VERSION;
+  /** Sound volume from 0 to 1; 0 mutes the game. */
+  volume: number;
+  theme: ThemeId;
+  /** Free-play rules for the next game as a config code: board size, speed, food and power-ups. */
+  rules: string;
+  renderer: BoardRenderer;
+  controls: {
+    keys: KeyBindings;
+    gamepad: GamepadButtons;
+    touch: TouchSettings;
+  };
+  accessibility: {
+    /** No gliding snake, pulsing food or other animation. */
+    reducedMotion: boolean;
+    /** Brighter grid lines and text on darker backgrounds. */
+    highContrast: boolean;
+  };
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  volume: 0.8,
+  theme: 'neon',
+  rules: encodeConfig(DEFAULT_GAME_CONFIG),
+  renderer: 'canvas',
+  controls: { keys: DEFAULT_KEY_BINDINGS, gamepad: DEFAULT_GAMEPAD_BUTTONS, touch: DEFAULT_TOUCH_SETTINGS },
+  accessibility: { reducedMotion: false, highContrast: false },
+};
+
+// Where the renderer and controls were kept before there was a settings object.
+const LEGACY_KEYS = {
+  renderer: 'neural-snake.renderer',
+  touch: 'neural-snake.touch',
+  gamepad: 'neural-snake.gamepad',
+  keys: 'neural-snake.keys',
+};
+
+const readLegacy = (key: string) => {
+  try {
+    const value = localStorage.getItem(key);
+    return value === null ? undefined : key === LEGACY_KEYS.renderer ? value : JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+type StoredSettings = Record<string, unknown> & { version?: number };
+
+// MIGRATIONS[n] turns version n into version n + 1. Version 0 is "nothing
+// stored yet": the separate keys the renderer and controls used to live in.
+const MIGRATIONS: ((stored: StoredSettings) => StoredSettings)[] = [
+  stored => ({
+    ...stored,
+    version: 1,
+    renderer: readLegacy(LEGACY_KEYS.renderer),
+    controls: {
+      keys: readLegacy(LEGACY_KEYS.keys),
+      gamepad: readLegacy(LEGACY_KEYS.gamepad),
+      touch: readLegacy(LEGACY_KEYS.touch),
+    },
+  }),
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf = <T extends string>(value: unknown, options: Record<T, unknown>, fallback: T): T =>
+  typeof value === 'string' && value in options ? (value as T) : fallback;
+
+const numberIn = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && value >= min && value <= max ? value : fallback;
+
+const validRules = (value: unknown) => {
+  if (typeof value !== 'string') return DEFAULT_SETTINGS.rules;
+  try {
+    decodeConfig(value);
+    return value;
+  } catch {
+    return DEFAULT_SETTINGS.rules;
+  }
+};
+
+// Keeps every stored value that still makes sense and falls back to the
+// default for the rest, so one bad field never costs the player the others.
+const sanitize = (stored: StoredSettings): Settings => {
+  const controls = isRecord(stored.controls) ? stored.controls : {};
+  const keys = isRecord(controls.keys) ? controls.keys : {};
+  const gamepad = isRecord(controls.gamepad) ? controls.gamepad : {};
+  const touch = isRecord(controls.touch) ? controls.touch : {};
+  const accessibility = isRecord(stored.accessibility) ? stored.accessibility : {};
+
+  return {
+    version: SETTINGS_VERSION,
+    volume: numberIn(stored.volume, 0, 1, DEFAULT_SETTINGS.volume),
+    theme: oneOf(stored.theme, THEMES, DEFAULT_SETTINGS.theme),
+    rules: validRules(stored.rules),
+    renderer: oneOf(stored.renderer, BOARD_RENDERERS, DEFAULT_SETTINGS.renderer),
+    controls: {
+      keys: Object.fromEntries(
+        KEY_ACTIONS.map(({ action }) => {
+          const bound = keys[action];
+          return [action, Array.isArray(bound) ? bound.filter(key => typeof key === 'string') : DEFAULT_KEY_BINDINGS[action]];
+        }),
+      ) as KeyBindings,
+      gamepad: Object.fromEntries(
+        GAMEPAD_ACTIONS.map(({ action }) => [action, numberIn(gamepad[action], 0, 63, DEFAULT_GAMEPAD_BUTTONS[action])]),
+      ) as GamepadButtons,
+      touch: {
+        mode: oneOf(touch.mode, TOUCH_MODE_LABELS, DEFAULT_TOUCH_SETTINGS.mode),
+        dpad: typeof touch.dpad === 'boolean' ? touch.dpad : DEFAULT_TOUCH_SETTINGS.dpad,
+        swipeDistance: numberIn(touch.swipeDistance, 10, 100, DEFAULT_TOUCH_SETTINGS.swipeDistance),
+      },
+    },
+    accessibility: {
+      reducedMotion: typeof accessibility.reducedMotion === 'boolean' ? accessibility.reducedMotion : DEFAULT_SETTINGS.accessibility.reducedMotion,
+      highContrast: typeof accessibility.highContrast === 'boolean' ? accessibility.highContrast : DEFAULT_SETTINGS.accessibility.highContrast,
+    },
+  };
+};
+
+/** Brings stored settings of any version, or none at all, up to the current version. */
+export const migrateSettings = (stored: unknown): Settings => {
+  let settings: StoredSettings = isRecord(stored) ? stored : {};
+  const version = typeof settings.version === 'number' ? settings.version : 0;
+  if (version > SETTINGS_VERSION) throw new Error(`Settings version ${version} is newer than this game (${SETTINGS_VERSION})`);
+  for (const migrate of MIGRATIONS.slice(version)) settings = migrate(settings);
+  return sanitize(settings);
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    return migrateSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
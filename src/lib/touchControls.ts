@@ -0,0 +1,21 @@
+export type TouchMode = 'auto' | 'on' | 'off';
+
+export type TouchSettings = {
+  /** 'auto' turns touch controls on for phone-sized screens only. */
+  mode: TouchMode;
+  /** Shows the on-screen D-pad next to swiping. */
+  dpad: boolean;
+  /** Pixels a finger travels before a swipe counts as a turn. */
+  swipeDistance: number;
+};
+
+export const DEFAULT_TOUCH_SETTINGS: TouchSettings = { mode: 'auto', dpad: true, swipeDistance: 30 };
+
+export const TOUCH_MODE_LABELS: Record<TouchMode, string> = {
+  auto: 'On for phones',
+  on: 'Always on',
+  off: 'Off',
+};
+
+export const touchControlsActive = (settings: TouchSettings, isMobile: boolean) =>
+  settings.mode === 'on' || (settings.mode === 'auto' && isMobile);
@@ -0,0 +1,377 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp, Eraser, Cherry, Copy, Play, Save, Square, Trash2, Crosshair } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import AccountDialog from '@/components/AccountDialog';
+import CosmicBackground from '@/components/CosmicBackground';
+import { BOARD_SIZE_RANGE, DEFAULT_GAME_CONFIG, WALL_LABELS, type GameConfig, type WallBehavior } from '@/game/config';
+import { MAX_LEVEL_CODE_LENGTH, decodeLevelCode, encodeLevelCode, findLevelProblems, levelCodeQuery, type CustomLevel } from '@/game/customLevel';
+import { DIRECTIONS, initialSnake, samePosition, type Direction, type Position } from '@/game/engine';
+import { FOOD_TABLES, findFoodTable, type FoodTableId } from '@/game/food';
+import { useBoardCellSize } from '@/hooks/use-board-cell-size';
+import { useSession } from '@/hooks/use-session';
+import { listCloudLevels, saveCloudLevel } from '@/lib/cloudLevels';
+import { toast } from '@/hooks/use-toast';
+
+type Tool = 'wall' | 'erase' | 'spawn' | 'food';
+
+const TOOLS: { id: Tool; label: string; icon: React.ReactNode }[] = [
+  { id: 'wall', label: 'Wall', icon: <Square /> },
+  { id: 'erase', label: 'Erase', icon: <Eraser /> },
+  { id: 'spawn', label: 'Spawn', icon: <Crosshair /> },
+  { id: 'food', label: 'Food spawn', icon: <Cherry /> },
+];
+
+const SPAWN_DIRECTIONS: { direction: Direction; label: string; icon: React.ReactNode }[] = [
+  { direction: DIRECTIONS.up, label: 'Up', icon: <ArrowUp /> },
+  { direction: DIRECTIONS.down, label: 'Down', icon: <ArrowDown /> },
+  { direction: DIRECTIONS.left, label: 'Left', icon: <ArrowLeft /> },
+  { direction: DIRECTIONS.right, label: 'Right', icon: <ArrowRight /> },
+];
+
+const EMPTY_LEVEL: CustomLevel = { name: 'Untitled level', config: DEFAULT_GAME_CONFIG };
+
+const inBounds = (config: GameConfig) => (cell: Position) => cell.x < config.width && cell.y < config.height;
+
+// Resizing keeps everything that still fits on the board.
+const resize = (config: GameConfig, width: number, height: number): GameConfig => {
+  const next = { ...config, width, height };
+  const fits = inBounds(next);
+  return {
+    ...next,
+    obstacles: config.obstacles.filter(fits),
+    foodSpawns: config.foodSpawns.filter(fits),
+    spawn: config.spawn && fits(config.spawn.position) ? config.spawn : null,
+  };
+};
+
+const without = (cells: Position[], cell: Position) => cells.filter(other => !samePosition(other, cell));
+
+const paint = (config: GameConfig, tool: Tool, cell: Position): GameConfig => {
+  switch (tool) {
+    case 'wall':
+      return config.obstacles.some(other => samePosition(other, cell))
+        ? config
+        : { ...config, obstacles: [...config.obstacles, cell], foodSpawns: without(config.foodSpawns, cell) };
+    case 'erase':
+      return {
+        ...config,
+        obstacles: without(config.obstacles, cell),
+        foodSpawns: without(config.foodSpawns, cell),
+        spawn: config.spawn && samePosition(config.spawn.position, cell) ? null : config.spawn,
+      };
+    case 'spawn':
+      return {
+        ...config,
+        obstacles: without(config.obstacles, cell),
+        spawn: { position: cell, direction: config.spawn?.direction ?? DIRECTIONS.up },
+      };
+    case 'food':
+      return config.foodSpawns.some(other => samePosition(other, cell))
+        ? { ...config, foodSpawns: without(config.foodSpawns, cell) }
+        : { ...config, obstacles: without(config.obstacles, cell), foodSpawns: [...config.foodSpawns, cell] };
+  }
+};
+
+const Editor = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const session = useSession();
+  const queryClient = useQueryClient();
+  const [tool, setTool] = useState<Tool>('wall');
+  const [painting, setPainting] = useState(false);
+  const [cloudId, setCloudId] = useState<string | null>(null);
+
+  const [level, setLevel] = useState<CustomLevel>(() => {
+    const code = searchParams.get('level');
+    if (!code) return EMPTY_LEVEL;
+    try {
+      return decodeLevelCode(code);
+    } catch (e) {
+      toast({ title: 'Could not open level', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+      return EMPTY_LEVEL;
+    }
+  });
+  const { config } = level;
+  const code = useMemo(() => encodeLevelCode(level), [level]);
+  const problems = useMemo(() => findLevelProblems(config), [config]);
+  const tooLong = code.length > MAX_LEVEL_CODE_LENGTH;
+
+  // Keep the URL in step with the level so a reload or a copied address reopens it.
+  useEffect(() => {
+    if (searchParams.get('level') !== code) setSearchParams({ level: code }, { replace: true });
+  }, [code, searchParams, setSearchParams]);
+
+  useEffect(() => {
+    const stop = () => setPainting(false);
+    window.addEventListener('pointerup', stop);
+    return () => window.removeEventListener('pointerup', stop);
+  }, []);
+
+  const updateConfig = (next: GameConfig) => setLevel(previous => ({ ...previous, config: next }));
+  const paintCell = (cell: Position) => setLevel(previous => ({ ...previous, config: paint(previous.config, tool, cell) }));
+
+  const cloudLevels = useQuery({
+    queryKey: ['levels', session?.user.id],
+    queryFn: () => (session ? listCloudLevels(session.user.id) : []),
+    enabled: !!session,
+  });
+
+  const save = useMutation({
+    mutationFn: () => saveCloudLevel(level, cloudId ?? undefined),
+    onSuccess: saved => {
+      setCloudId(saved.id);
+      queryClient.invalidateQueries({ queryKey: ['levels'] });
+      toast({ title: 'Level saved', description: `"${saved.name}" is in your cloud levels.` });
+    },
+    onError: error => toast({ title: 'Save failed', description: error.message, variant: 'destructive' }),
+  });
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}/editor${levelCodeQuery(code)}`);
+    toast({ title: 'Level link copied', description: 'Anyone with the link can open this level in the editor.' });
+  };
+
+  const openCloudLevel = (id: string, levelCode: string) => {
+    try {
+      setLevel(decodeLevelCode(levelCode));
+      setCloudId(id);
+    } catch (e) {
+      toast({ title: 'Could not open level', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  };
+
+  const snake = initialSnake(config);
+  const [boardRef, cellPx] = useBoardCellSize<HTMLDivElement>(config.width, config.height);
+
+  return (
+    <div className="min-h-screen relative overflow-hidden flex items-center justify-center p-4">
+      <CosmicBackground />
+      <div className="w-full max-w-6xl relative z-10 space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-6xl font-bold bg-gradient-primary bg-clip-text text-transparent animate-neon-flicker mb-4">
+            LEVEL EDITOR
+          </h1>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+          {/* Canvas */}
+          <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6 space-y-4">
+            <ToggleGroup type="single" value={tool} onValueChange={value => value && setTool(value as Tool)} className="justify-start">
+              {TOOLS.map(({ id, label, icon }) => (
+                <ToggleGroupItem key={id} value={id} aria-label={label} className="font-mono text-neon-blue">
+                  {icon}
+                  {label.toUpperCase()}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            <div ref={boardRef}>
+              <div
+                className={`grid mx-auto select-none touch-none border ${config.walls === 'wrap' ? 'border-2 border-dashed border-neon-blue' : 'border-neon-purple'}`}
+                style={{
+                  gridTemplateColumns: `repeat(${config.width}, 1fr)`,
+                  gridTemplateRows: `repeat(${config.height}, 1fr)`,
+                  width: `${cellPx * config.width}px`,
+                  height: `${cellPx * config.height}px`,
+                }}
+                onPointerLeave={() => setPainting(false)}
+              >
+                {Array.from({ length: config.width * config.height }).map((_, index) => {
+                  const cell = { x: index % config.width, y: Math.floor(index / config.width) };
+                  const isWall = config.obstacles.some(other => samePosition(other, cell));
+                  const isFood = config.foodSpawns.some(other => samePosition(other, cell));
+                  const snakeIndex = snake.findIndex(segment => samePosition(segment, cell));
+
+                  let cellClass = 'border-cyber-light/20 border-[0.5px] flex items-center justify-center cursor-crosshair';
+                  if (isWall) cellClass += ' bg-neon-purple/60';
+                  else if (snakeIndex === 0) cellClass += ' bg-green-500/60';
+                  else if (snakeIndex > 0) cellClass += ' bg-green-600/30';
+                  else if (isFood) cellClass += ' bg-neon-blue/30';
+                  else cellClass += ' bg-cyber-dark/50';
+
+                  return (
+                    <div
+                      key={index}
+                      className={cellClass}
+                      style={{ fontSize: `${cellPx * 0.7}px`, lineHeight: 1 }}
+                      onPointerDown={event => {
+                        event.preventDefault();
+                        setPainting(tool === 'wall' || tool === 'erase');
+                        paintCell(cell);
+                      }}
+                      onPointerEnter={() => painting && paintCell(cell)}
+                    >
+                      {isFood && !isWall && '🍌'}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="text-center text-sm text-cyber-light">
+              Drag to paint walls. Without a spawn point the snake starts in the middle facing up; without food spawns
+              food appears anywhere.
+            </div>
+          </Card>
+
+          {/* Settings */}
+          <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6 space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="level-name" className="text-neon-blue font-mono">
+                NAME
+              </Label>
+              <Input
+                id="level-name"
+                value={level.name}
+                maxLength={80}
+                onChange={event => setLevel(previous => ({ ...previous, name: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neon-blue font-mono">WIDTH: {config.width}</Label>
+              <Slider min={BOARD_SIZE_RANGE.min} max={BOARD_SIZE_RANGE.max} step={1} value={[config.width]} onValueChange={([value]) => updateConfig(resize(config, value, config.height))} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neon-blue font-mono">HEIGHT: {config.height}</Label>
+              <Slider min={BOARD_SIZE_RANGE.min} max={BOARD_SIZE_RANGE.max} step={1} value={[config.height]} onValueChange={([value]) => updateConfig(resize(config, config.width, value))} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neon-blue font-mono">START LENGTH: {config.startLength}</Label>
+              <Slider min={1} max={10} step={1} value={[config.startLength]} onValueChange={([value]) => updateConfig({ ...config, startLength: value })} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neon-blue font-mono">WALLS</Label>
+              <Select value={config.walls} onValueChange={value => updateConfig({ ...config, walls: value as WallBehavior })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(WALL_LABELS).map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neon-blue font-mono">FOOD</Label>
+              <Select
+                value={findFoodTable(config.foodTable) ?? undefined}
+                onValueChange={value => updateConfig({ ...config, foodTable: FOOD_TABLES[value as FoodTableId].table })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Custom mix" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FOOD_TABLES).map(([id, { label }]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neon-blue font-mono">SPAWN DIRECTION</Label>
+              <div className="flex gap-2">
+                {SPAWN_DIRECTIONS.map(({ direction, label, icon }) => (
+                  <Button
+                    key={label}
+                    size="icon"
+                    aria-label={label}
+                    disabled={!config.spawn}
+                    variant={config.spawn && samePosition(config.spawn.direction, direction) ? 'default' : 'outline'}
+                    onClick={() => config.spawn && updateConfig({ ...config, spawn: { ...config.spawn, direction } })}
+                  >
+                    {icon}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {problems.length > 0 && (
+              <div className="text-sm text-neon-pink space-y-1">
+                {problems.map(problem => (
+                  <div key={problem}>{problem}</div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                disabled={problems.length > 0}
+                onClick={() => navigate(`/${levelCodeQuery(code)}`)}
+                className="bg-gradient-primary text-white font-bold"
+              >
+                <Play />
+                TEST PLAY
+              </Button>
+              <Button variant="outline" onClick={copyLink}>
+                <Copy />
+                COPY LINK
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setLevel(previous => ({ ...previous, config: resize({ ...DEFAULT_GAME_CONFIG, walls: previous.config.walls, foodTable: previous.config.foodTable }, previous.config.width, previous.config.height) }));
+                }}
+              >
+                <Trash2 />
+                CLEAR
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Button
+                variant="outline"
+                disabled={!session || save.isPending || !level.name.trim() || tooLong}
+                onClick={() => save.mutate()}
+              >
+                <Save />
+                {cloudId ? 'UPDATE CLOUD COPY' : 'SAVE TO CLOUD'}
+              </Button>
+              {tooLong && <div className="text-sm text-neon-pink">This level is too detailed to save. Clear some cells.</div>}
+              {!session && (
+                <div className="flex items-center gap-2 text-xs text-cyber-light">
+                  Sign in to save levels to your account.
+                  <AccountDialog />
+                </div>
+              )}
+              {session && cloudLevels.data && cloudLevels.data.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-neon-purple font-mono text-sm">MY LEVELS</div>
+                  {cloudLevels.data.map(saved => (
+                    <button
+                      key={saved.id}
+                      className={`block w-full text-left text-sm font-mono hover:text-neon-pink ${saved.id === cloudId ? 'text-neon-pink' : 'text-neon-blue'}`}
+                      onClick={() => openCloudLevel(saved.id, saved.code)}
+                    >
+                      {saved.name} <span className="text-cyber-light">{saved.width}×{saved.height}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </Card>
+        </div>
+
+        <div className="text-center text-cyber-light">
+          <Link to="/" className="text-neon-blue hover:text-neon-pink underline">
+            Back to the game
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Editor;
@@ -1,7 +1,30 @@
+import { useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import SnakeGame from '@/components/SnakeGame';
+import { decodeLevelCode } from '@/game/customLevel';
+import { parseSeed } from '@/game/rng';
+import { toast } from '@/hooks/use-toast';
 
 const Index = () => {
-  return <SnakeGame />;
+  const [searchParams] = useSearchParams();
+  const levelCode = searchParams.get('level');
+  const customLevel = useMemo(() => {
+    if (!levelCode) return null;
+    try {
+      return decodeLevelCode(levelCode);
+    } catch {
+      return null;
+    }
+  }, [levelCode]);
+
+  useEffect(() => {
+    if (levelCode && !customLevel) {
+      toast({ title: 'Could not open level', description: 'The level link is damaged or from a newer version.', variant: 'destructive' });
+    }
+  }, [levelCode, customLevel]);
+
+  // Remount per level so an opened link always starts from its own rules.
+  return <SnakeGame key={levelCode ?? ''} seed={parseSeed(searchParams.get('seed'))} customLevel={customLevel} />;
 };
 
 export default Index;
@@ -0,0 +1,260 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CosmicBackground from '@/components/CosmicBackground';
+import { DEFAULT_GAME_CONFIG, WALL_LABELS, type WallBehavior } from '@/game/config';
+import { DIFFICULTIES, type DifficultyId } from '@/game/difficulty';
+import { LEVELS } from '@/game/levels';
+import {
+  LEADERBOARD_PERIODS,
+  SCORE_MODES,
+  boardFromSearch,
+  boardSearchParams,
+  listScores,
+  type LeaderboardBoard,
+  type LeaderboardPeriod,
+  type ScoreMode,
+} from '@/lib/leaderboard';
+
+const PAGE_SIZE = 20;
+
+// Page numbers to link to: the first, the last and the current page with its
+// neighbours, with null where an ellipsis stands in for the rest.
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let i = 0; i < pageCount; i++) {
+    if (i === 0 || i === pageCount - 1 || Math.abs(i - page) <= 1) pages.push(i);
+    else if (pages[pages.length - 1] !== null) pages.push(null);
+  }
+  return pages;
+};
+
+// The board, period and page all live in the URL, so the game-over screen can
+// link straight to the ranking a game went into.
+const Leaderboard = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const board = boardFromSearch(searchParams);
+  const periodParam = searchParams.get('period') ?? '';
+  const period: LeaderboardPeriod = periodParam in LEADERBOARD_PERIODS ? (periodParam as LeaderboardPeriod) : 'weekly';
+  const page = Math.max(0, (Number(searchParams.get('page')) || 1) - 1);
+
+  const show = (next: { board?: LeaderboardBoard; period?: LeaderboardPeriod; page?: number }) => {
+    const params = boardSearchParams(next.board ?? board);
+    params.set('period', next.period ?? period);
+    if (next.page) params.set('page', String(next.page + 1));
+    setSearchParams(params, { replace: true });
+  };
+  // Any other filter change starts over from the first page with every custom rule set.
+  const filter = (patch: Partial<LeaderboardBoard>) => show({ board: { ...board, rules: null, ...patch } });
+
+  const setMode = (mode: ScoreMode) =>
+    filter(
+      mode === 'campaign'
+        ? { mode, levelId: LEVELS[0].id, difficulty: null, walls: null }
+        : {
+            mode,
+            levelId: null,
+            difficulty: board.difficulty ?? DEFAULT_GAME_CONFIG.difficulty,
+            walls: board.walls ?? DEFAULT_GAME_CONFIG.walls,
+          },
+    );
+
+  const scores = useQuery({
+    queryKey: ['scores', period, board, page],
+    queryFn: () => listScores({ period, board, page, pageSize: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+  const pageCount = Math.max(1, Math.ceil((scores.data?.total ?? 0) / PAGE_SIZE));
+  const showRules = board.mode === 'custom' && !board.rules;
+
+  const goTo = (next: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (next >= 0 && next < pageCount) show({ page: next });
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden flex items-center justify-center p-4">
+      <CosmicBackground />
+      <div className="w-full max-w-4xl relative z-10 space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-6xl font-bold bg-gradient-primary bg-clip-text text-transparent animate-neon-flicker mb-4">
+            LEADERBOARD
+          </h1>
+        </div>
+
+        <Tabs value={period} onValueChange={value => show({ period: value as LeaderboardPeriod })}>
+          <TabsList className="mx-auto flex w-fit">
+            {Object.entries(LEADERBOARD_PERIODS).map(([id, { label }]) => (
+              <TabsTrigger key={id} value={id} className="font-mono">
+                {label.toUpperCase()}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <Select value={board.mode} onValueChange={value => setMode(value as ScoreMode)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SCORE_MODES).map(([id, label]) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {board.mode === 'campaign' ? (
+            <Select value={board.levelId ?? ''} onValueChange={levelId => filter({ levelId })}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEVELS.map((level, index) => (
+                  <SelectItem key={level.id} value={level.id}>
+                    {index + 1}. {level.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <>
+              <Select value={board.difficulty ?? ''} onValueChange={difficulty => filter({ difficulty: difficulty as DifficultyId })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DIFFICULTIES).map(([id, { label, scoreMultiplier }]) => (
+                    <SelectItem key={id} value={id}>
+                      {label} ×{scoreMultiplier}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={board.walls ?? ''} onValueChange={walls => filter({ walls: walls as WallBehavior })}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(WALL_LABELS).map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+
+        {board.mode === 'custom' && (
+          <div className="text-center text-sm text-cyber-light font-mono">
+            {board.rules ? (
+              <>
+                RULES: <span className="text-neon-blue break-all">{board.rules}</span>
+                <Button variant="ghost" size="sm" className="text-neon-blue ml-2" onClick={() => filter({})}>
+                  ALL RULE SETS
+                </Button>
+              </>
+            ) : (
+              'Custom scores are only comparable under the same rules: pick a rule set below to rank it.'
+            )}
+          </div>
+        )}
+
+        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6 space-y-4">
+          {scores.isError ? (
+            <div className="text-center text-neon-pink font-mono py-10">{scores.error.message}</div>
+          ) : scores.isPending ? (
+            <div className="text-center text-cyber-light font-mono py-10">LOADING…</div>
+          ) : scores.data.entries.length === 0 ? (
+            <div className="text-center text-cyber-light font-mono py-10">No scores yet. Finish a game and submit yours.</div>
+          ) : (
+            <Table className="font-mono">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>PLAYER</TableHead>
+                  <TableHead className="text-right">SCORE</TableHead>
+                  {showRules && <TableHead>RULES</TableHead>}
+                  <TableHead className="hidden md:table-cell">DATE</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scores.data.entries.map((entry, i) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-neon-purple">{page * PAGE_SIZE + i + 1}</TableCell>
+                    <TableCell className="text-neon-blue">{entry.player_name}</TableCell>
+                    <TableCell className="text-right text-neon-pink">{entry.score}</TableCell>
+                    {showRules && (
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="text-neon-blue hover:text-neon-pink underline break-all text-left"
+                          onClick={() => show({ board: { ...board, rules: entry.rules } })}
+                        >
+                          {entry.rules}
+                        </button>
+                      </TableCell>
+                    )}
+                    <TableCell className="hidden md:table-cell text-cyber-light">{new Date(entry.created_at).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {pageCount > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={goTo(page - 1)} aria-disabled={page === 0} />
+                </PaginationItem>
+                {visiblePages(page, pageCount).map((number, i) =>
+                  number === null ? (
+                    <PaginationItem key={`gap-${i}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={number}>
+                      <PaginationLink href="#" isActive={number === page} onClick={goTo(number)}>
+                        {number + 1}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ),
+                )}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={goTo(page + 1)} aria-disabled={page === pageCount - 1} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </Card>
+
+        <div className="text-center text-cyber-light">
+          <Link to="/" className="text-neon-blue hover:text-neon-pink underline">
+            Back to the game
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
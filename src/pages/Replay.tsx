@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Pause, Play, SkipBack, StepBack, StepForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import CosmicBackground from '@/components/CosmicBackground';
+import GameBoard from '@/components/GameBoard';
+import { currentTickMs, type DeathCause } from '@/game/engine';
+import { buildReplayFrames, encodeReplay, type Replay as ReplayData } from '@/game/replay';
+import { loadReplay } from '@/lib/replays';
+import { toast } from '@/hooks/use-toast';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+const DEATH_LABELS: Record<DeathCause, string> = {
+  wall: 'HIT THE WALL',
+  obstacle: 'HIT AN OBSTACLE',
+  self: 'HIT ITSELF',
+  poison: 'ATE POISON',
+};
+
+const Replay = () => {
+  const { id } = useParams();
+  const [frame, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const { replay, error } = useMemo((): { replay?: ReplayData; error?: string } => {
+    try {
+      return { replay: loadReplay(id ?? '') };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [id]);
+  const frames = useMemo(() => (replay ? buildReplayFrames(replay) : []), [replay]);
+  const lastFrame = Math.max(frames.length - 1, 0);
+  const current = frames[frame];
+  // Follows speed boosts so a replay runs at the pace the game was played.
+  const tickMs = current ? currentTickMs(current) : 0;
+
+  useEffect(() => {
+    setFrame(0);
+    setIsPlaying(true);
+  }, [frames]);
+
+  // Playback timer
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frame >= lastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => setFrame(f => Math.min(f + 1, lastFrame)), tickMs / speed);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, frame, lastFrame, speed, tickMs]);
+
+  const stepBy = (delta: number) => {
+    setIsPlaying(false);
+    setFrame(f => Math.min(Math.max(f + delta, 0), lastFrame));
+  };
+
+  const togglePlayback = () => {
+    if (!isPlaying && frame >= lastFrame) setFrame(0);
+    setIsPlaying(playing => !playing);
+  };
+
+  // Keyboard controls
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case ' ':
+          e.preventDefault();
+          togglePlayback();
+          break;
+        case 'ArrowLeft':
+          stepBy(-1);
+          break;
+        case 'ArrowRight':
+          stepBy(1);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyPress);
+    return () => window.removeEventListener('keydown', handleKeyPress);
+  });
+
+  const copyShareLink = async () => {
+    if (!replay) return;
+    await navigator.clipboard.writeText(`${window.location.origin}/replay/${encodeReplay(replay)}`);
+    toast({ title: 'Replay link copied', description: 'Anyone with the link can watch this run.' });
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden flex items-center justify-center p-4">
+      <CosmicBackground />
+      <div className="w-full max-w-2xl relative z-10">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-6xl font-bold bg-gradient-primary bg-clip-text text-transparent animate-neon-flicker mb-4">
+            REPLAY
+          </h1>
+          {current && (
+            <div className="text-2xl text-neon-blue font-mono">
+              SCORE: <span className="text-neon-pink">{current.score.toString().padStart(6, '0')}</span>
+            </div>
+          )}
+        </div>
+
+        <Card className="bg-cyber-medium border-2 border-neon-purple shadow-glow-purple p-6">
+          {error || !current ? (
+            <div className="text-center py-20 animate-slide-in">
+              <div className="text-4xl text-neon-pink mb-4 animate-glow-pulse">
+                REPLAY NOT FOUND
+              </div>
+              <div className="text-neon-blue mb-6">{error}</div>
+              <Button asChild className="bg-gradient-primary text-white font-bold px-8 py-4 text-xl">
+                <Link to="/">BACK TO GAME</Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="relative">
+                <GameBoard
+                  config={current.config}
+                  snake={current.snake}
+                  food={current.food}
+                  foodType={current.foodType}
+                  foodTicksLeft={current.foodExpiresAt === null ? null : current.foodExpiresAt - current.tick}
+                  powerUp={current.powerUp}
+                  effects={current.effects}
+                />
+                {current.status !== 'playing' && (
+                  <div className="absolute inset-0 flex items-end justify-center pb-6 pointer-events-none">
+                    <div className="text-2xl text-neon-pink animate-glow-pulse bg-cyber-dark/80 px-4 py-2 rounded">
+                      {current.status === 'won' ? 'BOARD CLEARED' : DEATH_LABELS[current.deathCause]}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <Slider
+                value={[frame]}
+                min={0}
+                max={lastFrame}
+                step={1}
+                onValueChange={([value]) => {
+                  setIsPlaying(false);
+                  setFrame(value);
+                }}
+              />
+
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex gap-2">
+                  <Button size="icon" variant="outline" onClick={() => stepBy(-lastFrame)} aria-label="Restart">
+                    <SkipBack />
+                  </Button>
+                  <Button size="icon" variant="outline" onClick={() => stepBy(-1)} aria-label="Previous frame">
+                    <StepBack />
+                  </Button>
+                  <Button size="icon" className="bg-gradient-primary text-white" onClick={togglePlayback} aria-label={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? <Pause /> : <Play />}
+                  </Button>
+                  <Button size="icon" variant="outline" onClick={() => stepBy(1)} aria-label="Next frame">
+                    <StepForward />
+                  </Button>
+                </div>
+                <div className="flex gap-1">
+                  {SPEEDS.map(value => (
+                    <Button
+                      key={value}
+                      size="sm"
+                      variant={value === speed ? 'default' : 'ghost'}
+                      onClick={() => setSpeed(value)}
+                    >
+                      {value}x
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm font-mono text-cyber-light">
+                <div>
+                  TICK <span className="text-neon-blue">{current.tick}</span> / {lastFrame} • SEED{' '}
+                  <span className="text-neon-blue">{replay.seed}</span> • BOARD{' '}
+                  <span className="text-neon-blue">
+                    {replay.config.width}×{replay.config.height}
+                    {replay.config.walls === 'wrap' && ' WRAP'}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="ghost" onClick={copyShareLink}>
+                    COPY LINK
+                  </Button>
+                  <Button size="sm" variant="ghost" asChild>
+                    <Link to="/">BACK TO GAME</Link>
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {/* Controls info */}
+        <div className="text-center mt-6 text-cyber-light space-y-1">
+          <div>Controls: SPACEBAR to play/pause • ← / → to step one frame</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
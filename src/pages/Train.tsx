@@ -0,0 +1,46 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CosmicBackground from '@/components/CosmicBackground';
+import EvolutionPanel from '@/components/training/EvolutionPanel';
+import RlPanel from '@/components/training/RlPanel';
+
+const Train = () => (
+  <div className="min-h-screen relative overflow-hidden flex items-center justify-center p-4">
+    <CosmicBackground />
+    <div className="w-full max-w-6xl relative z-10 space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <h1 className="text-6xl font-bold bg-gradient-primary bg-clip-text text-transparent animate-neon-flicker mb-4">
+          TRAINING LAB
+        </h1>
+      </div>
+
+      <Tabs defaultValue="evolution" className="space-y-6">
+        <TabsList className="mx-auto flex w-fit">
+          <TabsTrigger value="evolution" className="font-mono">
+            NEUROEVOLUTION
+          </TabsTrigger>
+          <TabsTrigger value="reinforcement" className="font-mono">
+            REINFORCEMENT
+          </TabsTrigger>
+        </TabsList>
+        {/* Both panels stay mounted so a hidden tab keeps its worker training. */}
+        <TabsContent value="evolution" forceMount className="data-[state=inactive]:hidden">
+          <EvolutionPanel />
+        </TabsContent>
+        <TabsContent value="reinforcement" forceMount className="data-[state=inactive]:hidden">
+          <RlPanel />
+        </TabsContent>
+      </Tabs>
+
+      <div className="text-center text-cyber-light">
+        <Link to="/" className="text-neon-blue hover:text-neon-pink underline">
+          Back to the game
+        </Link>
+      </div>
+    </div>
+  </div>
+);
+
+export default Train;
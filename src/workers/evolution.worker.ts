@@ -0,0 +1,59 @@
+// Runs neuroevolution off the main thread. Generations are scheduled one
+// macrotask apart so pause messages are picked up between them.
+
+import {
+  createEvolution,
+  type Evolution,
+  type EvolutionConfig,
+  type EvolutionOrigin,
+  type GenerationStats,
+} from '@/game/neural/evolution';
+import type { Network } from '@/game/neural/network';
+
+export type EvolutionRequest =
+  | { type: 'start'; config: EvolutionConfig; origin?: EvolutionOrigin }
+  | { type: 'pause' }
+  | { type: 'resume' };
+
+export type EvolutionResponse = {
+  type: 'generation';
+  stats: GenerationStats;
+  champion: { network: Network; fitness: number; score: number };
+};
+
+let evolution: Evolution | null = null;
+let running = false;
+let scheduled = false;
+
+const schedule = () => {
+  if (scheduled) return;
+  scheduled = true;
+  setTimeout(runNext, 0);
+};
+
+const runNext = () => {
+  scheduled = false;
+  if (!running || !evolution) return;
+  const stats = evolution.runGeneration();
+  const response: EvolutionResponse = { type: 'generation', stats, champion: evolution.champion };
+  self.postMessage(response);
+  schedule();
+};
+
+self.onmessage = (event: MessageEvent<EvolutionRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      evolution = createEvolution(message.config, message.origin);
+      running = true;
+      schedule();
+      break;
+    case 'pause':
+      running = false;
+      break;
+    case 'resume':
+      running = true;
+      schedule();
+      break;
+  }
+};
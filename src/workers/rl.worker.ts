@@ -0,0 +1,59 @@
+// Runs Q-learning off the main thread. Episodes are batched into ~50 ms
+// slices so the page gets a steady stream of stats without message floods.
+
+import type { Network } from '@/game/neural/network';
+import { createRlTrainer, type EpisodeStats, type RlConfig, type RlTrainer } from '@/game/rl/trainer';
+
+export type RlRequest = { type: 'start'; config: RlConfig } | { type: 'pause' } | { type: 'resume' };
+
+export type RlResponse =
+  | { type: 'episodes'; stats: EpisodeStats[] }
+  /** Snapshot of the learned policy, sent whenever training pauses. */
+  | { type: 'policy'; table: Float32Array | null; network: Network | null };
+
+const SLICE_MS = 50;
+
+let trainer: RlTrainer | null = null;
+let running = false;
+let scheduled = false;
+
+const schedule = () => {
+  if (scheduled) return;
+  scheduled = true;
+  setTimeout(runSlice, 0);
+};
+
+const runSlice = () => {
+  scheduled = false;
+  if (!running || !trainer) return;
+  const stats: EpisodeStats[] = [];
+  const started = performance.now();
+  do {
+    stats.push(trainer.runEpisode());
+  } while (performance.now() - started < SLICE_MS);
+  const response: RlResponse = { type: 'episodes', stats };
+  self.postMessage(response);
+  schedule();
+};
+
+self.onmessage = (event: MessageEvent<RlRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      trainer = createRlTrainer(message.config);
+      running = true;
+      schedule();
+      break;
+    case 'pause': {
+      running = false;
+      if (!trainer) break;
+      const response: RlResponse = { type: 'policy', table: trainer.table?.slice() ?? null, network: trainer.network };
+      self.postMessage(response);
+      break;
+    }
+    case 'resume':
+      running = true;
+      schedule();
+      break;
+  }
+};
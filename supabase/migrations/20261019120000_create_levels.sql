@@ -0,0 +1,48 @@
+-- Levels built in the /editor route. `code` is the shareable level code, so a
+-- saved level can be reopened or played without any other columns.
+create table public.levels (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  code text not null check (char_length(code) <= 4000),
+  width integer not null check (width between 5 and 60),
+  height integer not null check (height between 5 and 60),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index levels_user_id_idx on public.levels (user_id, updated_at desc);
+
+alter table public.levels enable row level security;
+
+-- Level codes are meant to be shared, so anyone may read them.
+create policy "Levels are readable by everyone"
+  on public.levels for select
+  using (true);
+
+create policy "Users can create their own levels"
+  on public.levels for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own levels"
+  on public.levels for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own levels"
+  on public.levels for delete
+  using (auth.uid() = user_id);
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger levels_touch_updated_at
+  before update on public.levels
+  for each row execute function public.touch_updated_at();
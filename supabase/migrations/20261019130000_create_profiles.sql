@@ -0,0 +1,26 @@
+-- One profile per player. `settings` holds the versioned settings object from
+-- src/lib/settings.ts; the client migrates older versions when it reads them.
+create table public.profiles (
+  id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  settings jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Users can read their own profile"
+  on public.profiles for select
+  using (auth.uid() = id);
+
+create policy "Users can create their own profile"
+  on public.profiles for insert
+  with check (auth.uid() = id);
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  using (auth.uid() = id);
+
+create trigger profiles_touch_updated_at
+  before update on public.profiles
+  for each row execute function public.touch_updated_at();
@@ -0,0 +1,34 @@
+-- Finished games posted to the /leaderboard route. `mode` is the board preset
+-- id, 'custom' for any other free-play rules, or 'campaign' with `level_id`
+-- set; `rules` is the config code the game was played with. A ranking only
+-- compares scores with the same mode, difficulty and walls, and the same
+-- level or custom rules, since multipliers and food make the rest incomparable.
+create table public.scores (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  player_name text not null check (char_length(player_name) between 1 and 24),
+  score integer not null check (score >= 0),
+  mode text not null check (char_length(mode) between 1 and 40),
+  level_id text check (char_length(level_id) <= 40),
+  difficulty text not null check (difficulty in ('easy', 'normal', 'hard', 'insane')),
+  walls text not null check (walls in ('solid', 'wrap')),
+  rules text not null check (char_length(rules) <= 4000),
+  created_at timestamptz not null default now()
+);
+
+create index scores_ranking_idx on public.scores (mode, difficulty, walls, score desc, created_at);
+create index scores_level_idx on public.scores (level_id, score desc, created_at) where level_id is not null;
+create index scores_rules_idx on public.scores (rules, score desc, created_at) where mode = 'custom';
+create index scores_created_at_idx on public.scores (created_at desc);
+
+alter table public.scores enable row level security;
+
+create policy "Scores are readable by everyone"
+  on public.scores for select
+  using (true);
+
+-- Scores are never edited or deleted by players, so insert is the only write.
+-- A future created_at would keep a score on the daily board for good.
+create policy "Users can post their own scores"
+  on public.scores for insert
+  with check (auth.uid() = user_id and created_at <= now());
@@ -0,0 +1,13 @@
+-- The most detailed level the editor can build has a code of about 14,500
+-- characters, well past the old 4000 limit. Both columns now take up to
+-- MAX_LEVEL_CODE_LENGTH from src/game/customLevel.ts.
+alter table public.levels drop constraint levels_code_check;
+alter table public.levels add constraint levels_code_check check (char_length(code) <= 16000);
+
+alter table public.scores drop constraint scores_rules_check;
+alter table public.scores add constraint scores_rules_check check (char_length(rules) <= 16000);
+
+-- A btree entry tops out near 2.7 kB, too small for long rules. Rankings only
+-- look rules up by equality, which a hash index handles at any length.
+drop index public.scores_rules_idx;
+create index scores_rules_idx on public.scores using hash (rules) where mode = 'custom';